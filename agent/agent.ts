@@ -0,0 +1,421 @@
+// agent/agent.ts
+//
+// Long-running market-making agent. Each session it allocates vault capital to its trading
+// wallet within the vault's allocation limits, quotes by signing TradeSettlement orders from
+// its strategy, and tracks inventory and PnL from the wallet's balances. When the session
+// ends or a risk limit trips it pulls its quotes, trades the non-asset token back into the
+// vault asset and returns capital and profit with returnAllCapital.
+//
+//   idle ──allocate──▶ quoting ──session end / risk limit──▶ unwinding ──return──▶ idle
+//                                                                       └──(risk)──▶ halted
+//
+// The trading wallet is the agent's own address, so it should hold nothing but the session's
+// capital: returnAllCapital sweeps its whole asset balance into the vault. The wallet reserves
+// itself for the agent in the vault before approving it, so other agents cannot sweep it.
+import { BigNumber, BigNumberish, constants, Signer } from "ethers";
+import type { TypedDataSigner } from "@ethersproject/abstract-signer";
+import { createOrder, SignedOrder } from "../sdk/orders";
+import { Pair, TradeSettlementClient } from "../sdk/settlementClient";
+import { ensureAllowance } from "../sdk/transactions";
+import { HyperFillVaultClient } from "../sdk/vaultClient";
+import { IERC20__factory } from "../typechain-types";
+import type { OrderSink, PriceFeed } from "./feeds";
+import { Inventory, InventorySnapshot } from "./inventory";
+import type { Strategy } from "./strategy";
+
+export type AgentStatus = "idle" | "quoting" | "unwinding" | "halted";
+
+export interface RiskLimits {
+  maxLossBps?: number; // PnL below -maxLossBps of the allocation
+  maxDrawdownBps?: number; // wallet value below the session peak
+  maxExposureBps?: number; // non-asset holdings above maxExposureBps of the allocation
+}
+
+export interface AgentConfig {
+  vault: string;
+  settlement: string;
+  baseAsset: string;
+  quoteAsset: string;
+  allocation: BigNumberish; // capital to request per session, in vault asset units
+  minAllocation?: BigNumberish; // wait for more headroom below this (default: any amount)
+  strategy: Strategy;
+  priceFeed: PriceFeed;
+  sink: OrderSink;
+  quoteTtl?: number; // seconds a signed quote stays valid (default 60)
+  sessionLength?: number; // seconds of quoting before returning capital and profit (default 3600)
+  maxUnwindTime?: number; // seconds to trade back into the asset before a partial return (default 600)
+  risk?: RiskLimits;
+  pollInterval?: number; // milliseconds between ticks once started (default 5000)
+  maxConsecutiveErrors?: number; // halt after this many failed ticks in a row (default 5)
+  log?: (message: string) => void;
+}
+
+interface ActiveQuote {
+  hash: string;
+  signed: SignedOrder;
+  filled: BigNumber; // fill already counted in the inventory
+}
+
+const BPS = 10000;
+
+export class MarketMakingAgent {
+  readonly vault: HyperFillVaultClient;
+  readonly settlement: TradeSettlementClient;
+  status: AgentStatus = "idle";
+  haltReason?: string;
+  lastSnapshot?: InventorySnapshot;
+
+  private wallet?: string;
+  private pair?: Pair;
+  private inventory?: Inventory;
+  private quotes: ActiveQuote[] = [];
+  private nextOrderId = 1;
+  private sessionStart = 0;
+  private unwindStart = 0;
+  private haltAfterReturn = false;
+  private errors = 0;
+  private running = false;
+  private timer?: NodeJS.Timeout;
+  private currentTick?: Promise<AgentStatus>;
+
+  constructor(private readonly signer: Signer & TypedDataSigner, private readonly config: AgentConfig) {
+    this.vault = new HyperFillVaultClient(config.vault, signer);
+    this.settlement = new TradeSettlementClient(config.settlement, signer);
+  }
+
+  // ===== LIFECYCLE =====
+
+  /**
+   * Tick every pollInterval until halted or stopped. Failed ticks are logged and retried
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      await this.safeTick();
+      if (this.running && this.status !== "halted") {
+        this.timer = setTimeout(loop, this.config.pollInterval ?? 5000);
+      }
+    };
+    void loop();
+  }
+
+  /**
+   * Stop ticking. With returnCapital, first unwind and return any outstanding capital
+   */
+  async stop(returnCapital = true): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await this.currentTick;
+
+    if (returnCapital && this.status === "quoting") await this.beginUnwind("agent stopped", true);
+    while (returnCapital && this.status === "unwinding") {
+      await this.safeTick();
+      if (this.status === "unwinding") await new Promise((resolve) => setTimeout(resolve, this.config.pollInterval ?? 5000));
+    }
+    if (this.status !== "halted") await this.halt("agent stopped");
+  }
+
+  /**
+   * Run one step of the state machine
+   */
+  tick(): Promise<AgentStatus> {
+    this.currentTick = this.step();
+    return this.currentTick;
+  }
+
+  private async safeTick(): Promise<void> {
+    try {
+      await this.tick();
+      this.errors = 0;
+    } catch (error) {
+      this.errors += 1;
+      this.log(`❌ Tick failed (${this.errors} in a row): ${(error as Error).message}`);
+      if (this.errors >= (this.config.maxConsecutiveErrors ?? 5)) await this.halt("too many consecutive errors");
+    }
+  }
+
+  private async step(): Promise<AgentStatus> {
+    if (this.status === "halted") return this.status;
+    await this.init();
+
+    const contract = this.vault.contract;
+    if (await contract.paused()) {
+      await this.halt("vault paused");
+      return this.status;
+    }
+    if (!(await contract.authorizedAgents(this.wallet!))) {
+      await this.halt("agent no longer authorized");
+      return this.status;
+    }
+
+    const now = await this.now();
+    if (this.status === "idle") {
+      await this.allocate(now);
+      return this.status;
+    }
+
+    const snapshot = await this.refresh();
+    if (this.status === "quoting") {
+      const breach = this.riskBreach(snapshot);
+      if (breach) {
+        await this.beginUnwind(breach, true);
+      } else if (now - this.sessionStart >= (this.config.sessionLength ?? 3600)) {
+        await this.beginUnwind("session ended", false);
+      } else {
+        await this.requote(snapshot, now);
+        return this.status;
+      }
+    }
+
+    // Unwinding: trade the non-asset token back, then return everything once nothing is left to quote
+    if (now - this.unwindStart >= (this.config.maxUnwindTime ?? 600)) {
+      await this.returnPartial();
+    } else if ((await this.requote(snapshot, now, true)) === 0) {
+      await this.returnAll();
+    }
+    return this.status;
+  }
+
+  private async init(): Promise<void> {
+    if (this.wallet) return;
+    const { config } = this;
+    const wallet = await this.signer.getAddress();
+    const pair = await this.settlement.getPair(config.baseAsset, config.quoteAsset);
+    if (!pair.enabled) throw new Error("Pair not enabled");
+
+    const asset = await this.vault.contract.asset();
+    const assetIsBase = asset.toLowerCase() === pair.baseAsset.toLowerCase();
+    if (!assetIsBase && asset.toLowerCase() !== pair.quoteAsset.toLowerCase()) {
+      throw new Error("The vault asset must be the pair's base or quote token");
+    }
+
+    // The vault pulls returns from the wallet once it is reserved for this agent alone; the
+    // settlement contract pulls both sides of fills
+    const reservedFor = await this.vault.contract.walletAgent(wallet);
+    if (reservedFor === constants.AddressZero) {
+      await this.vault.reserveWallet(wallet);
+    } else if (reservedFor !== wallet) {
+      throw new Error(`Wallet is reserved for agent ${reservedFor}`);
+    }
+    await ensureAllowance(IERC20__factory.connect(asset, this.signer), this.vault.address, constants.MaxUint256);
+    await this.settlement.approve(pair.baseAsset, constants.MaxUint256);
+    await this.settlement.approve(pair.quoteAsset, constants.MaxUint256);
+
+    this.pair = pair;
+    this.inventory = new Inventory(pair, assetIsBase);
+    this.nextOrderId = (await this.now()) * 1000; // distinct across restarts
+    this.wallet = wallet;
+    this.log(`🤖 Agent ${wallet} ready on ${config.strategy.name} strategy`);
+  }
+
+  // ===== CAPITAL =====
+
+  private async allocate(now: number): Promise<void> {
+    const contract = this.vault.contract;
+    const wallet = this.wallet!;
+
+    const outstanding = await contract.walletAllocated(wallet, wallet);
+    if (outstanding.gt(0)) {
+      // Restarted with capital still out: resume the session instead of allocating more
+      this.log(`♻️  Resuming with ${outstanding.toString()} already allocated`);
+    } else {
+      const amount = await this.allocationHeadroom();
+      if (amount.isZero() || amount.lt(this.config.minAllocation ?? 1)) {
+        this.log("⏳ No allocation headroom, waiting");
+        return;
+      }
+      await this.vault.allocate(amount, wallet);
+      this.log(`💰 Allocated ${amount.toString()} from the vault`);
+    }
+
+    this.inventory!.reset(await this.balanceOf(this.pair!.baseAsset));
+    this.sessionStart = now;
+    this.status = "quoting";
+    await this.requote(await this.refresh(), now);
+  }
+
+  /**
+   * Largest allocation the vault accepts now, capped at the configured size
+   */
+  private async allocationHeadroom(): Promise<BigNumber> {
+    const contract = this.vault.contract;
+    const wallet = this.wallet!;
+    const [totalAssets, totalAllocated, maxBps, agentCapBps, agentAllocated, liquid] = await Promise.all([
+      contract.totalAssets(),
+      contract.totalAllocated(),
+      contract.maxAllocationBps(),
+      contract.agentMaxAllocationBps(wallet),
+      contract.agentAllocated(wallet),
+      contract.getAvailableAssets(),
+    ]);
+    // Management fees accrue until the allocation is mined; stay 1 bps inside the limits
+    const limit = (bps: BigNumber, used: BigNumber) => {
+      const max = totalAssets.mul(bps).div(BPS).mul(BPS - 1).div(BPS);
+      return max.gt(used) ? max.sub(used) : BigNumber.from(0);
+    };
+
+    const candidates = [BigNumber.from(this.config.allocation), liquid, limit(maxBps, totalAllocated)];
+    if (agentCapBps.gt(0)) candidates.push(limit(agentCapBps, agentAllocated));
+    return candidates.reduce((min, value) => (value.lt(min) ? value : min));
+  }
+
+  private async returnAll(): Promise<void> {
+    await this.cancelQuotes();
+    const { events } = await this.vault.returnAllCapital(this.wallet!);
+    const snapshot = this.lastSnapshot!;
+    this.log(`🏦 Returned ${events[0].args.amount.toString()} to the vault (PnL ${snapshot.pnl.toString()})`);
+
+    if (this.haltAfterReturn) {
+      await this.halt(this.haltReason ?? "risk limit");
+    } else {
+      this.status = "idle";
+    }
+  }
+
+  /**
+   * Unwinding timed out: return the asset balance and halt, leaving the allocation open for
+   * the inventory that could not be traded back
+   */
+  private async returnPartial(): Promise<void> {
+    await this.cancelQuotes();
+    const asset = this.inventory!.assetIsBase ? this.pair!.baseAsset : this.pair!.quoteAsset;
+    const amount = await this.balanceOf(asset);
+    if (amount.gt(0)) {
+      const pnl = this.lastSnapshot!.pnl;
+      const profit = pnl.lte(0) ? BigNumber.from(0) : pnl.lt(amount) ? pnl : amount;
+      await this.vault.returnCapital(amount, profit, this.wallet!);
+      this.log(`🏦 Returned ${amount.toString()} to the vault; inventory left in the wallet`);
+    }
+    await this.halt(`unwind timed out${this.haltReason ? ` after ${this.haltReason}` : ""}`);
+  }
+
+  // ===== QUOTING =====
+
+  private async refresh(): Promise<InventorySnapshot> {
+    const pair = this.pair!;
+    for (const quote of this.quotes) {
+      const filled = await this.settlement.contract.filledQuantity(quote.hash);
+      if (filled.gt(quote.filled)) {
+        this.inventory!.recordFill(filled.sub(quote.filled));
+        quote.filled = filled;
+      }
+    }
+
+    const [base, quote, allocated, midPrice] = await Promise.all([
+      this.balanceOf(pair.baseAsset),
+      this.balanceOf(pair.quoteAsset),
+      this.vault.contract.walletAllocated(this.wallet!, this.wallet!),
+      this.config.priceFeed.getPrice(),
+    ]);
+    this.lastSnapshot = this.inventory!.snapshot(base, quote, allocated, midPrice);
+    return this.lastSnapshot;
+  }
+
+  private riskBreach(snapshot: InventorySnapshot): string | undefined {
+    const { maxLossBps, maxDrawdownBps, maxExposureBps } = this.config.risk ?? {};
+    if (snapshot.allocated.isZero()) return undefined;
+    const ofAllocation = (value: BigNumber) => value.mul(BPS).div(snapshot.allocated).toNumber();
+
+    if (maxLossBps !== undefined && snapshot.pnl.lt(0) && ofAllocation(snapshot.pnl.mul(-1)) > maxLossBps) {
+      return `loss of ${ofAllocation(snapshot.pnl.mul(-1))} bps exceeds ${maxLossBps} bps`;
+    }
+    if (maxDrawdownBps !== undefined && snapshot.drawdownBps > maxDrawdownBps) {
+      return `drawdown of ${snapshot.drawdownBps} bps exceeds ${maxDrawdownBps} bps`;
+    }
+    if (maxExposureBps !== undefined && ofAllocation(snapshot.exposure) > maxExposureBps) {
+      return `exposure of ${ofAllocation(snapshot.exposure)} bps exceeds ${maxExposureBps} bps`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Sign and publish the strategy's quotes, replacing the resting ones
+   * @returns Number of quotes published
+   */
+  private async requote(snapshot: InventorySnapshot, now: number, unwinding = false): Promise<number> {
+    const { config } = this;
+    const pair = this.pair!;
+    const midPrice = await config.priceFeed.getPrice();
+    const quotes = config.strategy.quote({ pair, midPrice, inventory: snapshot, unwinding });
+    const nonce = await this.settlement.contract.nonces(this.wallet!, pair.baseAsset);
+    const expiry = now + (config.quoteTtl ?? 60);
+
+    const signed: SignedOrder[] = [];
+    for (const quote of quotes) {
+      const order = createOrder({
+        maker: this.wallet!,
+        orderId: this.nextOrderId++,
+        baseAsset: pair.baseAsset,
+        quoteAsset: pair.quoteAsset,
+        price: quote.price,
+        quantity: quote.quantity,
+        side: quote.side,
+        timestamp: now,
+        nonce,
+        expiry,
+      });
+      signed.push({ order, signature: await this.settlement.signOrder(this.signer, order) });
+    }
+    await config.sink.publish(signed);
+
+    // Replaced quotes stay fillable until they expire, so keep counting their fills
+    const live = this.quotes.filter((quote) => quote.signed.order.expiry.gte(now));
+    for (const order of signed) {
+      live.push({ hash: await this.settlement.hashOrder(order.order), signed: order, filled: BigNumber.from(0) });
+    }
+    this.quotes = live;
+    return signed.length;
+  }
+
+  /**
+   * Pull the quotes from the sink and invalidate them on-chain so none can fill later
+   */
+  private async cancelQuotes(): Promise<void> {
+    await this.config.sink.withdraw();
+    if (this.quotes.length === 0) return;
+    const baseAsset = this.pair!.baseAsset;
+    const nonce = await this.settlement.contract.nonces(this.wallet!, baseAsset);
+    await this.settlement.invalidateNonces(baseAsset, nonce.add(1));
+    this.quotes = [];
+  }
+
+  private async beginUnwind(reason: string, halt: boolean): Promise<void> {
+    this.log(`${halt ? "🚨" : "⏰"} Unwinding: ${reason}`);
+    await this.cancelQuotes();
+    this.status = "unwinding";
+    this.unwindStart = await this.now();
+    this.haltAfterReturn = halt;
+    if (halt) this.haltReason = reason;
+  }
+
+  private async halt(reason: string): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    if (this.wallet) {
+      try {
+        await this.cancelQuotes();
+      } catch (error) {
+        this.log(`⚠️  Could not cancel quotes: ${(error as Error).message}`);
+      }
+    }
+    this.status = "halted";
+    this.haltReason = reason;
+    this.log(`🛑 Halted: ${reason}`);
+  }
+
+  // ===== HELPERS =====
+
+  private async now(): Promise<number> {
+    const provider = this.signer.provider!;
+    return (await provider.getBlock("latest")).timestamp;
+  }
+
+  private balanceOf(token: string): Promise<BigNumber> {
+    return IERC20__factory.connect(token, this.signer).balanceOf(this.wallet!);
+  }
+
+  private log(message: string): void {
+    (this.config.log ?? console.log)(message);
+  }
+}
@@ -0,0 +1,61 @@
+// agent/feeds.ts
+//
+// Where the agent gets its reference price and where its signed quotes go. Both are
+// interfaces so a deployment can plug in an exchange feed and its matching engine.
+import fs from "fs";
+import { BigNumber } from "ethers";
+import { SignedOrder, signedOrderToJSON } from "../sdk/orders";
+
+export interface PriceFeed {
+  /** Reference price, whole quote tokens per whole base token, 18 decimals */
+  getPrice(): Promise<BigNumber>;
+}
+
+export interface OrderSink {
+  /** Replace the agent's resting quotes with `orders` */
+  publish(orders: SignedOrder[]): Promise<void>;
+  /** Pull every resting quote; the runtime also invalidates them on-chain */
+  withdraw(): Promise<void>;
+}
+
+/** Fixed or manually updated reference price */
+export class StaticPriceFeed implements PriceFeed {
+  constructor(public price: BigNumber) {}
+
+  async getPrice(): Promise<BigNumber> {
+    return this.price;
+  }
+}
+
+/** Keeps the current quotes in memory for an in-process matcher */
+export class MemoryOrderSink implements OrderSink {
+  orders: SignedOrder[] = [];
+
+  async publish(orders: SignedOrder[]): Promise<void> {
+    this.orders = orders;
+  }
+
+  async withdraw(): Promise<void> {
+    this.orders = [];
+  }
+}
+
+/**
+ * Appends every quote update as a JSON line ({ type, orders }) for an external matching engine
+ * to tail
+ */
+export class JsonLinesOrderSink implements OrderSink {
+  constructor(private readonly file: string) {}
+
+  async publish(orders: SignedOrder[]): Promise<void> {
+    this.append({ type: "quotes", orders: orders.map(signedOrderToJSON) });
+  }
+
+  async withdraw(): Promise<void> {
+    this.append({ type: "withdraw", orders: [] });
+  }
+
+  private append(line: object): void {
+    fs.appendFileSync(this.file, JSON.stringify({ ...line, at: new Date().toISOString() }) + "\n");
+  }
+}
@@ -0,0 +1,8 @@
+// agent/index.ts
+//
+// Market-making agent runtime: the state machine, inventory tracking, strategies and the
+// price feed / order sink interfaces it is wired up with.
+export * from "./agent";
+export * from "./feeds";
+export * from "./inventory";
+export * from "./strategy";
@@ -0,0 +1,67 @@
+// agent/inventory.ts
+//
+// Inventory and PnL of the agent's trading wallet for one allocation session. Balances are
+// read from chain each tick; everything is valued in the vault asset at the reference price,
+// so PnL is what returnAllCapital would realize if the wallet held only the asset.
+import { BigNumber } from "ethers";
+import type { Pair } from "../sdk/settlementClient";
+import { baseValue, quoteValue } from "./strategy";
+
+export interface InventorySnapshot {
+  assetIsBase: boolean; // whether the vault asset is the pair's base token
+  base: BigNumber;
+  quote: BigNumber;
+  position: BigNumber; // base bought (positive) or sold (negative) since the session started
+  allocated: BigNumber; // capital the vault has outstanding in the wallet
+  value: BigNumber; // wallet value in the vault asset
+  pnl: BigNumber; // value - allocated
+  exposure: BigNumber; // holdings of the non-asset token, valued in the vault asset
+  drawdownBps: number; // fall from the session's peak value
+  fills: number;
+  filledBase: BigNumber; // base traded this session
+}
+
+export class Inventory {
+  private startBase = BigNumber.from(0);
+  private peakValue = BigNumber.from(0);
+  private fills = 0;
+  private filledBase = BigNumber.from(0);
+
+  constructor(readonly pair: Pair, readonly assetIsBase: boolean) {}
+
+  /**
+   * Start a new session from the wallet's current base balance
+   */
+  reset(base: BigNumber): void {
+    this.startBase = base;
+    this.peakValue = BigNumber.from(0);
+    this.fills = 0;
+    this.filledBase = BigNumber.from(0);
+  }
+
+  recordFill(quantity: BigNumber): void {
+    this.fills += 1;
+    this.filledBase = this.filledBase.add(quantity);
+  }
+
+  snapshot(base: BigNumber, quote: BigNumber, allocated: BigNumber, midPrice: BigNumber): InventorySnapshot {
+    const exposure = this.assetIsBase ? baseValue(this.pair, quote, midPrice) : quoteValue(this.pair, base, midPrice);
+    const value = (this.assetIsBase ? base : quote).add(exposure);
+    if (value.gt(this.peakValue)) this.peakValue = value;
+    const drawdownBps = this.peakValue.isZero() ? 0 : this.peakValue.sub(value).mul(10000).div(this.peakValue).toNumber();
+
+    return {
+      assetIsBase: this.assetIsBase,
+      base,
+      quote,
+      position: base.sub(this.startBase),
+      allocated,
+      value,
+      pnl: value.sub(allocated),
+      exposure,
+      drawdownBps,
+      fills: this.fills,
+      filledBase: this.filledBase,
+    };
+  }
+}
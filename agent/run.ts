@@ -0,0 +1,75 @@
+// agent/run.ts
+//
+// Runs the market-making agent until interrupted. Contract addresses come from
+// deployments/<network>.json (see scripts/deploy.ts); signed quotes are appended to
+// QUOTES_FILE as JSON lines for the matching engine. Ctrl-C pulls the quotes, unwinds and
+// returns the capital before exiting.
+//
+//   REFERENCE_PRICE=0.5 AGENT_SIGNER_INDEX=1 npx hardhat run agent/run.ts --network localhost
+import hre from "hardhat";
+import "dotenv/config";
+import { getDeployment } from "../scripts/deployments";
+import { JsonLinesOrderSink, MarketMakingAgent, SpreadStrategy, StaticPriceFeed } from ".";
+
+async function main() {
+  const { ethers } = hre;
+  const env = process.env;
+  if (!env.REFERENCE_PRICE) {
+    throw new Error("REFERENCE_PRICE env var is required (quote tokens per base token)");
+  }
+
+  const signers = await ethers.getSigners();
+  const agentSigner = signers[Number(env.AGENT_SIGNER_INDEX ?? 0)];
+  const baseAsset = env.BASE_ASSET ?? getDeployment(hre, "WSEI").address;
+  const quoteAsset = env.QUOTE_ASSET ?? getDeployment(hre, "USDC").address;
+  const base = await ethers.getContractAt("IERC20Metadata", baseAsset);
+  const decimals = await base.decimals();
+
+  const agent = new MarketMakingAgent(agentSigner, {
+    vault: env.VAULT_ADDRESS ?? getDeployment(hre, "HyperFillVault").address,
+    settlement: env.SETTLEMENT_ADDRESS ?? getDeployment(hre, "TradeSettlement").address,
+    baseAsset,
+    quoteAsset,
+    allocation: ethers.utils.parseUnits(env.ALLOCATION ?? "1000", decimals),
+    strategy: new SpreadStrategy({
+      spreadBps: Number(env.SPREAD_BPS ?? 50),
+      orderSize: ethers.utils.parseUnits(env.ORDER_SIZE ?? "100", decimals),
+      maxPosition: ethers.utils.parseUnits(env.MAX_POSITION ?? "500", decimals),
+      skewBps: Number(env.SKEW_BPS ?? 25),
+    }),
+    priceFeed: new StaticPriceFeed(ethers.utils.parseEther(env.REFERENCE_PRICE)),
+    sink: new JsonLinesOrderSink(env.QUOTES_FILE ?? "agent-quotes.jsonl"),
+    quoteTtl: Number(env.QUOTE_TTL ?? 60),
+    sessionLength: Number(env.SESSION_LENGTH ?? 3600),
+    risk: {
+      maxLossBps: Number(env.MAX_LOSS_BPS ?? 200),
+      maxDrawdownBps: Number(env.MAX_DRAWDOWN_BPS ?? 300),
+    },
+    pollInterval: Number(env.POLL_INTERVAL_MS ?? 5000),
+  });
+
+  console.log("🚀 Starting market-making agent on", hre.network.name);
+  console.log("👤 Agent:", agentSigner.address);
+  agent.start();
+
+  // Run until interrupted or until the agent halts on its own (risk limit, paused vault, ...)
+  await new Promise<void>((resolve) => {
+    const watch = setInterval(() => {
+      if (agent.status === "halted") {
+        clearInterval(watch);
+        resolve();
+      }
+    }, 1000);
+    process.once("SIGINT", () => {
+      console.log("\n⏹️  Stopping, returning capital...");
+      clearInterval(watch);
+      agent.stop().then(resolve, resolve);
+    });
+  });
+  console.log(`✅ Agent stopped (${agent.haltReason})`);
+}
+
+main().catch((error) => {
+  console.error("❌ Agent failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,109 @@
+// agent/strategy.ts
+//
+// Quoting strategies for the market-making agent. A strategy turns the reference price, the
+// pair's trading rules and the agent's inventory into the bids and asks to sign; the runtime
+// handles capital, signing, publication and risk.
+import { BigNumber } from "ethers";
+import { Side } from "../sdk/orderSigning";
+import type { Pair } from "../sdk/settlementClient";
+import type { InventorySnapshot } from "./inventory";
+
+export interface Quote {
+  side: Side;
+  price: BigNumber; // whole quote tokens per whole base token, 18 decimals
+  quantity: BigNumber; // base units
+}
+
+export interface MarketState {
+  pair: Pair;
+  midPrice: BigNumber; // reference price from the price feed, same units as Quote.price
+  inventory: InventorySnapshot;
+  unwinding: boolean; // only quote to convert inventory back into the vault asset
+}
+
+export interface Strategy {
+  readonly name: string;
+  quote(state: MarketState): Quote[];
+}
+
+const WAD = BigNumber.from(10).pow(18);
+const BPS = 10000;
+
+/** Quote amount of `quantity` base units at `price`, rounded down */
+export function quoteValue(pair: Pair, quantity: BigNumber, price: BigNumber): BigNumber {
+  return quantity.mul(price).mul(BigNumber.from(10).pow(pair.quoteDecimals)).div(WAD.mul(BigNumber.from(10).pow(pair.baseDecimals)));
+}
+
+/** Base units that `quoteAmount` buys at `price`, rounded down */
+export function baseValue(pair: Pair, quoteAmount: BigNumber, price: BigNumber): BigNumber {
+  return quoteAmount.mul(WAD).mul(BigNumber.from(10).pow(pair.baseDecimals)).div(price.mul(BigNumber.from(10).pow(pair.quoteDecimals)));
+}
+
+/**
+ * Round a quote onto the pair's tick and lot grid, bids down and asks up so rounding never
+ * crosses the spread. Returns undefined if nothing tradable is left
+ */
+export function roundQuote(pair: Pair, quote: Quote): Quote | undefined {
+  let price = quote.price.div(pair.tickSize).mul(pair.tickSize);
+  if (quote.side === Side.Ask && !price.eq(quote.price)) price = price.add(pair.tickSize);
+  const quantity = quote.quantity.div(pair.lotSize).mul(pair.lotSize);
+
+  if (price.isZero() || quantity.isZero()) return undefined;
+  if (quoteValue(pair, quantity, price).lt(pair.minNotional)) return undefined;
+  return { side: quote.side, price, quantity };
+}
+
+export interface SpreadStrategyOptions {
+  spreadBps: number; // distance between bid and ask
+  orderSize: BigNumber; // base units per side
+  maxPosition: BigNumber; // stop adding to a long or short base position beyond this
+  skewBps?: number; // shift both quotes against the position, at full size when at maxPosition
+}
+
+/**
+ * Symmetric quotes around the reference price, skewed against the current base position.
+ * While unwinding it quotes one side at the reference price to convert the non-asset token
+ * back into the vault asset
+ */
+export class SpreadStrategy implements Strategy {
+  readonly name = "spread";
+
+  constructor(private readonly options: SpreadStrategyOptions) {
+    if (options.spreadBps <= 0 || options.spreadBps >= BPS) throw new Error("spreadBps must be between 0 and 10000");
+    if (options.maxPosition.lte(0)) throw new Error("maxPosition must be positive");
+  }
+
+  quote({ pair, midPrice, inventory, unwinding }: MarketState): Quote[] {
+    if (unwinding) return this.unwindQuotes(pair, midPrice, inventory);
+
+    const { spreadBps, orderSize, maxPosition, skewBps = 0 } = this.options;
+    const halfSpread = midPrice.mul(spreadBps).div(2 * BPS);
+    // Long base: lower both quotes to buy less and sell more; short base: raise them
+    const clamped = inventory.position.gt(maxPosition)
+      ? maxPosition
+      : inventory.position.lt(maxPosition.mul(-1))
+        ? maxPosition.mul(-1)
+        : inventory.position;
+    const skew = midPrice.mul(skewBps).mul(clamped).div(maxPosition.mul(BPS));
+
+    const quotes: Quote[] = [];
+    const bidPrice = midPrice.sub(halfSpread).sub(skew);
+    if (inventory.position.lt(maxPosition) && bidPrice.gt(0)) {
+      const affordable = baseValue(pair, inventory.quote, bidPrice);
+      quotes.push({ side: Side.Bid, price: bidPrice, quantity: orderSize.lt(affordable) ? orderSize : affordable });
+    }
+    if (inventory.position.gt(maxPosition.mul(-1))) {
+      const askPrice = midPrice.add(halfSpread).sub(skew);
+      quotes.push({ side: Side.Ask, price: askPrice, quantity: orderSize.lt(inventory.base) ? orderSize : inventory.base });
+    }
+    return quotes.map((quote) => roundQuote(pair, quote)).filter((quote): quote is Quote => quote !== undefined);
+  }
+
+  private unwindQuotes(pair: Pair, midPrice: BigNumber, inventory: InventorySnapshot): Quote[] {
+    const quote: Quote = inventory.assetIsBase
+      ? { side: Side.Bid, price: midPrice, quantity: baseValue(pair, inventory.quote, midPrice) }
+      : { side: Side.Ask, price: midPrice, quantity: inventory.base };
+    const rounded = roundQuote(pair, quote);
+    return rounded ? [rounded] : [];
+  }
+}
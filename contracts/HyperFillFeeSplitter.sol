@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+/**
+ * @title HyperFillFeeSplitter
+ * @dev Fee recipient for HyperFillVault that splits incoming fees across weighted recipients
+ * Works for any ERC20, so both WSEI fees and HPF fee shares are split the same way.
+ * Recipients claim their own balances.
+ */
+contract HyperFillFeeSplitter is Ownable, ReentrancyGuard {
+    // ===== EVENTS =====
+
+    event FeeRecipientsSet(address[] recipients, uint256[] weightsBps);
+    event FeesDistributed(address indexed token, uint256 amount);
+    event FeesCredited(address indexed token, address indexed recipient, uint256 amount);
+    event FeesClaimed(address indexed token, address indexed recipient, uint256 amount);
+
+    // ===== STATE VARIABLES =====
+
+    uint256 public constant TOTAL_WEIGHT_BPS = 10000;
+    uint256 public constant MAX_RECIPIENTS = 20;
+
+    address[] private _recipients;
+    mapping(address => uint256) public recipientWeightBps;
+
+    /// @notice Fees credited to a recipient and not yet claimed, per token
+    mapping(address => mapping(address => uint256)) public claimableFees;
+    /// @notice Sum of claimableFees for a token, excluded from the next distribution
+    mapping(address => uint256) public totalClaimableFees;
+
+    // ===== CONSTRUCTOR =====
+
+    constructor(address[] memory recipients, uint256[] memory weightsBps) Ownable(msg.sender) {
+        _setRecipients(recipients, weightsBps);
+    }
+
+    // ===== FEE FUNCTIONS =====
+
+    /**
+     * @notice Split every undistributed unit of a token across the current recipients
+     * @dev Anyone may call this; the last recipient receives the rounding remainder
+     * @param token Token to distribute (WSEI or HPF shares)
+     * @return amount Amount distributed
+     */
+    function distribute(address token) public returns (uint256 amount) {
+        amount = IERC20(token).balanceOf(address(this)) - totalClaimableFees[token];
+        if (amount == 0) return 0;
+
+        uint256 remaining = amount;
+        uint256 count = _recipients.length;
+        for (uint256 i = 0; i < count; i++) {
+            address recipient = _recipients[i];
+            uint256 share = i == count - 1
+                ? remaining
+                : (amount * recipientWeightBps[recipient]) / TOTAL_WEIGHT_BPS;
+            remaining -= share;
+            claimableFees[token][recipient] += share;
+            emit FeesCredited(token, recipient, share);
+        }
+
+        totalClaimableFees[token] += amount;
+        emit FeesDistributed(token, amount);
+    }
+
+    /**
+     * @notice Claim the caller's fees in a token, distributing any new fees first
+     * @param token Token to claim
+     * @return amount Amount transferred to the caller
+     */
+    function claim(address token) external nonReentrant returns (uint256 amount) {
+        distribute(token);
+
+        amount = claimableFees[token][msg.sender];
+        require(amount > 0, "HyperFillFeeSplitter: Nothing to claim");
+
+        claimableFees[token][msg.sender] = 0;
+        totalClaimableFees[token] -= amount;
+
+        require(IERC20(token).transfer(msg.sender, amount), "HyperFillFeeSplitter: Transfer failed");
+        emit FeesClaimed(token, msg.sender, amount);
+    }
+
+    // ===== ADMIN FUNCTIONS =====
+
+    /**
+     * @notice Replace the recipient list
+     * @dev Fees already credited stay claimable by their previous recipients. Distribute
+     * pending tokens before changing weights so they are split under the old weights.
+     * @param recipients Fee recipients
+     * @param weightsBps Weight of each recipient in basis points, summing to 10000
+     */
+    function setRecipients(address[] calldata recipients, uint256[] calldata weightsBps) external onlyOwner {
+        _setRecipients(recipients, weightsBps);
+    }
+
+    // ===== VIEW FUNCTIONS =====
+
+    /**
+     * @notice Get the recipients and their weights
+     */
+    function getRecipients() external view returns (address[] memory recipients, uint256[] memory weightsBps) {
+        recipients = _recipients;
+        weightsBps = new uint256[](recipients.length);
+        for (uint256 i = 0; i < recipients.length; i++) {
+            weightsBps[i] = recipientWeightBps[recipients[i]];
+        }
+    }
+
+    /**
+     * @notice Amount of a token received but not yet distributed
+     */
+    function undistributedFees(address token) external view returns (uint256) {
+        return IERC20(token).balanceOf(address(this)) - totalClaimableFees[token];
+    }
+
+    // ===== INTERNAL FUNCTIONS =====
+
+    function _setRecipients(address[] memory recipients, uint256[] memory weightsBps) internal {
+        require(recipients.length > 0, "HyperFillFeeSplitter: No recipients");
+        require(recipients.length <= MAX_RECIPIENTS, "HyperFillFeeSplitter: Too many recipients");
+        require(recipients.length == weightsBps.length, "HyperFillFeeSplitter: Length mismatch");
+
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            recipientWeightBps[_recipients[i]] = 0;
+        }
+
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "HyperFillFeeSplitter: Invalid recipient");
+            require(weightsBps[i] > 0, "HyperFillFeeSplitter: Invalid weight");
+            require(recipientWeightBps[recipients[i]] == 0, "HyperFillFeeSplitter: Duplicate recipient");
+            recipientWeightBps[recipients[i]] = weightsBps[i];
+            totalWeight += weightsBps[i];
+        }
+        require(totalWeight == TOTAL_WEIGHT_BPS, "HyperFillFeeSplitter: Weights must sum to 10000");
+
+        _recipients = recipients;
+        emit FeeRecipientsSet(recipients, weightsBps);
+    }
+}
@@ -0,0 +1,97 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./HyperFillVault.sol";
+import "./TradeSettlement.sol";
+
+/**
+ * @title HyperFillSubAccount
+ * @dev Per-agent trading wallet that keeps vault capital in contract custody
+ * The agent funds it with `vault.moveFromVaultToWallet(amount, subAccount)`, so the vault's
+ * allocation caps apply unchanged. The sub-account is the maker of the agent's orders in
+ * TradeSettlement; the agent signs them and the signature is checked through ERC-1271.
+ * Funds only leave through settled trades or through the vault pulling its asset back with
+ * `moveFromWalletToVault` or `returnAllCapital`. The account reserves itself for its agent in
+ * the vault, so no other agent can fund it or pull from it.
+ */
+contract HyperFillSubAccount is IERC1271 {
+    // ===== EVENTS =====
+
+    event SettlementApproved(address indexed token, uint256 amount);
+
+    // ===== STATE VARIABLES =====
+
+    HyperFillVault public immutable vault;
+    TradeSettlement public immutable settlement;
+    /// @notice Agent whose signatures are valid for this account while it holds the vault's AGENT_ROLE
+    address public immutable agent;
+
+    // ===== CONSTRUCTOR =====
+
+    constructor(HyperFillVault vault_, TradeSettlement settlement_, address agent_) {
+        require(
+            address(vault_) != address(0) && address(settlement_) != address(0) && agent_ != address(0),
+            "HyperFillSubAccount: Invalid address"
+        );
+        vault = vault_;
+        settlement = settlement_;
+        agent = agent_;
+
+        // Let the vault pull its capital back, on behalf of this account's agent only
+        vault_.reserveWallet(agent_);
+        require(IERC20(vault_.asset()).approve(address(vault_), type(uint256).max), "HyperFillSubAccount: Approve failed");
+    }
+
+    modifier onlyAgent() {
+        require(msg.sender == agent, "HyperFillSubAccount: Not the agent");
+        _;
+    }
+
+    // ===== AGENT FUNCTIONS =====
+
+    /**
+     * @notice Let TradeSettlement pull a token this account pays in trades
+     * @param token Token to approve
+     * @param amount Allowance to grant
+     */
+    function approveSettlement(address token, uint256 amount) external onlyAgent {
+        require(IERC20(token).approve(address(settlement), amount), "HyperFillSubAccount: Approve failed");
+        emit SettlementApproved(token, amount);
+    }
+
+    /**
+     * @notice Cancel one of this account's orders
+     */
+    function cancelOrder(bytes32 orderHash) external onlyAgent {
+        settlement.cancelOrder(orderHash);
+    }
+
+    /**
+     * @notice Invalidate this account's orders on a base asset with a nonce below minNonce
+     */
+    function invalidateNonces(address baseAsset, uint256 minNonce) external onlyAgent {
+        settlement.invalidateNonces(baseAsset, minNonce);
+    }
+
+    // ===== ERC-1271 =====
+
+    /**
+     * @notice Accept a digest signed by the agent while it is authorized and the vault is not paused
+     * @dev Removing the agent or pausing the vault stops every open order of this account at once
+     */
+    function isValidSignature(bytes32 hash, bytes memory signature) external view returns (bytes4) {
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(hash, signature);
+        if (
+            error == ECDSA.RecoverError.NoError &&
+            recovered == agent &&
+            vault.authorizedAgents(agent) &&
+            !vault.paused()
+        ) {
+            return IERC1271.isValidSignature.selector;
+        }
+        return 0xffffffff;
+    }
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/**
+ * @title HyperFillTimelock
+ * @dev Owner of HyperFillVault in production deployments
+ * Admin calls to the vault are scheduled by a proposer, announced through `CallScheduled`,
+ * and can only be executed once `getMinDelay()` has passed. Proposers can cancel a
+ * scheduled call until then. The delay itself can only be changed through the timelock.
+ * Emergency pause does not go through the timelock; it is done by the vault guardian.
+ */
+contract HyperFillTimelock is TimelockController {
+    /**
+     * @param minDelay Initial delay in seconds between scheduling and executing a call
+     * @param proposers Accounts allowed to schedule and cancel calls
+     * @param executors Accounts allowed to execute ready calls (address(0) = anyone)
+     * @param admin Optional account allowed to grant roles during setup (address(0) = none)
+     */
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) TimelockController(minDelay, proposers, executors, admin) {}
+}
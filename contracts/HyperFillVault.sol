@@ -2,16 +2,46 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/extensions/AccessControlEnumerable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 /**
  * @title HyperFillVault
  * @dev ERC4626 Vault for AI-powered market making on Sei
  * Users deposit SEI tokens and receive vault shares representing their portion of the pool
  */
-contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
+contract HyperFillVault is ERC4626, AccessControlEnumerable, ReentrancyGuard, Pausable {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // ===== ROLES =====
+
+    /// @notice May pause the vault
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    /// @notice Sets allocation limits, the minimum deposit, NAV oracles and report limits
+    bytes32 public constant RISK_MANAGER_ROLE = keccak256("RISK_MANAGER_ROLE");
+    /// @notice Sets fee rates and the fee recipient
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+    /// @notice Authorizes and revokes agents; admin of AGENT_ROLE
+    bytes32 public constant AGENT_MANAGER_ROLE = keccak256("AGENT_MANAGER_ROLE");
+    /// @notice Trading agents allowed to move capital
+    bytes32 public constant AGENT_ROLE = keccak256("AGENT_ROLE");
+
+    // ===== STRUCTS =====
+
+    struct RedeemRequest {
+        address controller; // may cancel the request and claim its assets
+        address owner;      // account the shares were taken from and are returned to on cancel
+        uint256 shares;
+        uint256 epoch;
+    }
+
+    struct RedeemEpoch {
+        uint256 shares;     // shares still requested in this epoch
+        uint256 assets;     // assets reserved for the epoch once fulfilled
+        bool fulfilled;
+    }
     
     // ===== EVENTS =====
     event LiquidityAdded(address indexed user, uint256 assets, uint256 shares);
@@ -22,24 +52,54 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
     event LiquidityReturned(address indexed user, address indexed fromWallet, uint256 amount);
     event AllCapitalReturned(address indexed user, address indexed fromWallet, uint256 amount);
     event ProfitsDeposited(uint256 amount);
+    event LossRealized(address indexed agent, address indexed wallet, uint256 amount);
+    event WalletReserved(address indexed wallet, address indexed agent);
     event ManagementFeeSet(uint256 newFeeBps, uint256 oldFeeBps);
     event WithdrawalFeeSet(uint256 newFeeBps, uint256 oldFeeBps);
+    event PerformanceFeeSet(uint256 newFeeBps, uint256 oldFeeBps);
+    event PerformanceFeeIntervalSet(uint256 newInterval, uint256 oldInterval);
+    event FeesInSharesSet(bool inShares);
+    event PerformanceFeeCrystallized(uint256 feeAssets, uint256 sharePrice, uint256 highWaterMark);
+    event FeesMintedAsShares(address indexed recipient, uint256 feeAssets, uint256 feeShares);
     event FeeRecipientSet(address indexed newRecipient, address indexed oldRecipient);
+    event MaxAllocationSet(uint256 newMaxBps, uint256 oldMaxBps);
+    event MinDepositSet(uint256 newMinDeposit, uint256 oldMinDeposit);
+    event AgentAllocationCapSet(address indexed agent, uint256 newCapBps, uint256 oldCapBps);
+    event WalletValueReported(
+        address indexed agent,
+        address indexed wallet,
+        address indexed reporter,
+        uint256 value,
+        uint256 asOf
+    );
+    event NavOracleSet(address indexed oracle, bool authorized);
+    event ReportLimitsSet(uint256 maxStaleness, uint256 maxDeviationBps);
+    event RedeemRequested(
+        address indexed controller,
+        address indexed owner,
+        uint256 indexed requestId,
+        address sender,
+        uint256 shares
+    );
+    event RedeemRequestCancelled(uint256 indexed requestId, address indexed controller, uint256 shares);
+    event RedeemEpochFulfilled(uint256 indexed epoch, uint256 shares, uint256 assets);
+    event RedeemClaimed(
+        uint256 indexed requestId,
+        address indexed controller,
+        address indexed receiver,
+        uint256 assets
+    );
+    event CapitalRecallRequested(uint256 indexed epoch, uint256 amount);
     event FeesWithdrawn(
         address indexed recipient, 
         uint256 managementFees, 
         uint256 withdrawalFees, 
+        uint256 performanceFees,
         uint256 totalFees
     );  
     
     // ===== STATE VARIABLES =====
     
-    /// @notice Mapping of authorized trading agents
-    mapping(address => bool) public authorizedAgents;
-
-    /// @notice Mapping of share's users
-    mapping(address => uint256) public shareToUser;
-    
     /// @notice Minimum deposit amount
     uint256 public minDeposit = 1e18; // 1 SEI minimum
 
@@ -49,8 +109,50 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
     /// @notice Total assets allocated to agents for trading
     uint256 public totalAllocated;
 
-    /// @notice Array to keep track of all authorized agents
-    address[] public authorizedAgentsList;
+    /// @notice Assets allocated by each agent across all of its trading wallets
+    mapping(address => uint256) public agentAllocated;
+
+    /// @notice Assets allocated by each agent to each of its trading wallets (agent => wallet => amount)
+    mapping(address => mapping(address => uint256)) public walletAllocated;
+
+    /// @notice Last reported mark-to-market value of each trading wallet (agent => wallet => value)
+    mapping(address => mapping(address => uint256)) public walletMarkedValue;
+
+    /// @notice As-of timestamp of each wallet's last mark (0 = never marked, valued at cost)
+    mapping(address => mapping(address => uint256)) public walletMarkedAt;
+
+    /// @notice Addresses allowed to post mark-to-market reports for any wallet
+    mapping(address => bool) public navOracles;
+
+    /// @notice Maximum age of a mark-to-market report when it is posted
+    uint256 public maxReportStaleness = 1 days;
+
+    /// @notice Maximum distance of a wallet's mark from its allocated cost (basis points)
+    uint256 public maxReportDeviationBps = 2000; // within 20% of cost
+
+    /// @notice Per-agent allocation cap (basis points of total assets, 0 = only the global cap applies)
+    mapping(address => uint256) public agentMaxAllocationBps;
+
+    /// @notice Total capital written off as trading losses
+    uint256 public totalRealizedLoss;
+
+    /// @notice Capital written off as trading losses, per agent
+    mapping(address => uint256) public agentRealizedLoss;
+
+    /// @notice Agent a trading wallet reserved itself for; only that agent may fund or sweep it
+    mapping(address => address) public walletAgent;
+
+    /// @dev Agents with outstanding allocations
+    EnumerableSet.AddressSet private _allocatingAgents;
+
+    /// @dev Trading wallets with outstanding allocations, per agent
+    mapping(address => EnumerableSet.AddressSet) private _agentWallets;
+
+    /// @dev Number of (agent, wallet) pairs with outstanding allocations
+    uint256 private _allocatedWalletCount;
+
+    /// @notice Most (agent, wallet) pairs that can hold allocations at once, so totalAssets() stays bounded
+    uint256 public constant MAX_ALLOCATED_WALLETS = 100;
 
     /// @notice Management fee (basis points per year, 10000 = 100%)
     uint256 public managementFeeBps = 200; // 2% per year
@@ -69,6 +171,39 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
 
     /// @notice Last fee calculation timestamp for management fees
     uint256 public lastFeeCalculation;
+
+    /// @notice Performance fee on share price gains above the high-water mark (basis points, 10000 = 100%)
+    uint256 public performanceFeeBps; // disabled until set
+
+    /// @notice Highest share price performance fees have been charged up to (18 decimals)
+    uint256 public highWaterMark = 1e18;
+
+    /// @notice Minimum time between scheduled performance fee crystallizations
+    uint256 public performanceFeeInterval = 30 days;
+
+    /// @notice Last performance fee crystallization timestamp
+    uint256 public lastPerformanceFeeCrystallization;
+
+    /// @notice Accumulated performance fees
+    uint256 public accumulatedPerformanceFees;
+
+    /// @notice Pay management and performance fees as shares minted to the fee recipient instead of WSEI
+    bool public feesInShares;
+
+    /// @notice Asynchronous redeem requests by id
+    mapping(uint256 => RedeemRequest) public redeemRequests;
+
+    /// @notice Redeem request epochs; all requests in an epoch are fulfilled at one share price
+    mapping(uint256 => RedeemEpoch) public redeemEpochs;
+
+    /// @notice Epoch that new redeem requests join
+    uint256 public currentRedeemEpoch;
+
+    /// @notice Id of the last redeem request created
+    uint256 public lastRedeemRequestId;
+
+    /// @notice Assets reserved for fulfilled redeem requests that have not been claimed
+    uint256 public totalClaimableRedeemAssets;
     
     // ===== CONSTRUCTOR =====
     
@@ -81,9 +216,17 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
     ) 
         ERC4626(_asset) 
         ERC20("HyperFillVault Shares", "HPF")
-        Ownable(msg.sender)
     {
+        // The deployer starts with every role and hands them out after deployment
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(GUARDIAN_ROLE, msg.sender);
+        _grantRole(RISK_MANAGER_ROLE, msg.sender);
+        _grantRole(FEE_MANAGER_ROLE, msg.sender);
+        _grantRole(AGENT_MANAGER_ROLE, msg.sender);
+        _setRoleAdmin(AGENT_ROLE, AGENT_MANAGER_ROLE);
+
         lastFeeCalculation = block.timestamp; // Initialize fee tracking
+        lastPerformanceFeeCrystallization = block.timestamp;
     }
     
     // ===== FEE CALCULATION FUNCTIONS =====
@@ -113,34 +256,116 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
 
     /**
      * @notice Get gross total assets (before fee deductions)
-     * @return Gross assets in the vault
+     * @return Gross assets held by the vault plus the current value of agent allocations
      */
     function _grossTotalAssets() internal view returns (uint256) {
-        return IERC20(asset()).balanceOf(address(this));
+        return _unreservedBalance() + totalAllocatedValue();
     }
 
     /**
-     * @notice Override totalAssets to account for management fees
-     * @return Net assets after deducting accumulated and pending fees
+     * @dev Vault balance not owed to fulfilled redeem requests
      */
-    function totalAssets() public view override returns (uint256) {
+    function _unreservedBalance() internal view returns (uint256) {
+        uint256 balance = IERC20(asset()).balanceOf(address(this));
+        return balance > totalClaimableRedeemAssets ? balance - totalClaimableRedeemAssets : 0;
+    }
+
+    /**
+     * @dev Management fees accrued since the last calculation
+     */
+    function _pendingManagementFees() internal view returns (uint256) {
         uint256 grossAssets = _grossTotalAssets();
-        
-        // Calculate pending management fees
         uint256 timeElapsed = block.timestamp - lastFeeCalculation;
-        uint256 pendingManagementFees = 0;
         
-        if (timeElapsed > 0 && grossAssets > 0) {
-            uint256 annualFeeAmount = (grossAssets * managementFeeBps) / 10000;
-            pendingManagementFees = (annualFeeAmount * timeElapsed) / 365 days;
+        if (timeElapsed == 0 || grossAssets == 0) {
+            return 0;
         }
         
-        uint256 totalFees = accumulatedManagementFees + accumulatedWithdrawalFees + pendingManagementFees;
+        uint256 annualFeeAmount = (grossAssets * managementFeeBps) / 10000;
+        return (annualFeeAmount * timeElapsed) / 365 days;
+    }
+
+    /**
+     * @dev Assets held by the vault that are not reserved for fees or claimable redemptions
+     */
+    function _liquidAssets() internal view returns (uint256) {
+        uint256 balance = _unreservedBalance();
+        uint256 reservedFees = accumulatedManagementFees + accumulatedWithdrawalFees + accumulatedPerformanceFees
+            + _pendingManagementFees();
+        return balance > reservedFees ? balance - reservedFees : 0;
+    }
+
+    /**
+     * @notice Override totalAssets to account for agent allocations and management fees
+     * @return Net assets after deducting accumulated and pending fees
+     */
+    function totalAssets() public view override returns (uint256) {
+        uint256 grossAssets = _grossTotalAssets();
+        uint256 totalFees = accumulatedManagementFees + accumulatedWithdrawalFees + accumulatedPerformanceFees
+            + _pendingManagementFees();
         
         // Return net assets (gross assets minus all fees)
         return grossAssets > totalFees ? grossAssets - totalFees : 0;
     }
     
+    /**
+     * @notice Crystallize the performance fee on the configured schedule
+     * @dev Charges performanceFeeBps of the gain in share price above the high-water mark.
+     * Wallets marked above cost count at cost, so only realized gains are charged
+     */
+    function crystallizePerformanceFee() external nonReentrant {
+        require(
+            block.timestamp >= lastPerformanceFeeCrystallization + performanceFeeInterval,
+            "HyperFillVault: Crystallization not due"
+        );
+        
+        // Calculate management fees so the gain is measured net of them
+        calculateManagementFees();
+        _crystallizePerformanceFee();
+    }
+
+    /**
+     * @dev Book the performance fee owed above the high-water mark and raise the mark
+     */
+    function _crystallizePerformanceFee() internal {
+        lastPerformanceFeeCrystallization = block.timestamp;
+
+        uint256 supply = totalSupply();
+        if (supply == 0) return;
+
+        uint256 feeAssets = _performanceFee(_realizedAssets(), supply);
+        accumulatedPerformanceFees += feeAssets;
+
+        uint256 sharePrice = Math.mulDiv(_realizedAssets(), 1e18, supply);
+        if (sharePrice > highWaterMark) {
+            highWaterMark = sharePrice;
+        }
+
+        emit PerformanceFeeCrystallized(feeAssets, sharePrice, highWaterMark);
+    }
+
+    /**
+     * @dev Total assets with marked-up wallets counted at cost
+     * @return Net assets the performance fee is charged on; unrealized mark gains are left out
+     * until the capital comes back to the vault
+     */
+    function _realizedAssets() internal view returns (uint256) {
+        (, uint256 unrealizedGain) = _allocatedValue();
+        uint256 assets = totalAssets();
+        return assets > unrealizedGain ? assets - unrealizedGain : 0;
+    }
+
+    /**
+     * @dev Performance fee owed on the gain of the share price above the high-water mark
+     */
+    function _performanceFee(uint256 assets, uint256 supply) internal view returns (uint256) {
+        uint256 sharePrice = Math.mulDiv(assets, 1e18, supply);
+        if (sharePrice <= highWaterMark) return 0;
+
+        uint256 gain = Math.mulDiv(sharePrice - highWaterMark, supply, 1e18);
+        return (gain * performanceFeeBps) / 10000;
+    }
+    
     // ===== LIQUIDITY FUNCTIONS =====
     
     /**
@@ -148,81 +373,351 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
      * @param assets Amount of SEI tokens to deposit
      * @return shares Number of vault shares minted
      */
-    function depositLiquidity(uint256 assets) 
-        external 
-        nonReentrant 
-        whenNotPaused 
-        returns (uint256 shares) 
-    {
+    function depositLiquidity(uint256 assets) external returns (uint256 shares) {
+        return deposit(assets, msg.sender);
+    }
+    
+    /**
+     * @notice Remove all of the caller's liquidity from the vault with withdrawal fee
+     * @dev Use the ERC4626 withdraw/redeem functions for partial withdrawals
+     * @return assets Amount of SEI tokens returned after withdrawal fee
+     */
+    function withdrawProfits() external returns (uint256 assets) {
+        uint256 shares = balanceOf(msg.sender);
+        require(shares > 0, "HyperFillVault: Cannot redeem zero shares");
+
+        return redeem(shares, msg.sender, msg.sender);
+    }
+
+    // ===== ERC4626 OVERRIDES =====
+
+    /**
+     * @notice Deposit assets and mint shares to receiver
+     * @dev Subject to minDeposit and pause like depositLiquidity
+     */
+    function deposit(uint256 assets, address receiver) public override nonReentrant returns (uint256) {
         // Calculate management fees before deposit
         calculateManagementFees();
-        
+        return super.deposit(assets, receiver);
+    }
+
+    /**
+     * @notice Mint exact shares to receiver
+     * @dev Subject to minDeposit and pause like depositLiquidity
+     */
+    function mint(uint256 shares, address receiver) public override nonReentrant returns (uint256) {
+        // Calculate management fees before deposit
+        calculateManagementFees();
+        return super.mint(shares, receiver);
+    }
+
+    /**
+     * @notice Withdraw an exact amount of assets (after withdrawal fee) from owner's shares
+     * @dev Caller needs a share allowance from owner when they differ
+     */
+    function withdraw(
+        uint256 assets,
+        address receiver,
+        address owner
+    ) public override nonReentrant returns (uint256) {
+        // Calculate management fees before withdrawal
+        calculateManagementFees();
+        return super.withdraw(assets, receiver, owner);
+    }
+
+    /**
+     * @notice Redeem an exact amount of owner's shares for assets (after withdrawal fee)
+     * @dev Caller needs a share allowance from owner when they differ
+     */
+    function redeem(
+        uint256 shares,
+        address receiver,
+        address owner
+    ) public override nonReentrant returns (uint256) {
+        // Calculate management fees before withdrawal
+        calculateManagementFees();
+        return super.redeem(shares, receiver, owner);
+    }
+
+    /**
+     * @notice Preview shares burned to withdraw `assets`, including the withdrawal fee
+     */
+    function previewWithdraw(uint256 assets) public view override returns (uint256) {
+        return super.previewWithdraw(assets + _feeOnRaw(assets, withdrawalFeeBps));
+    }
+
+    /**
+     * @notice Preview assets received for `shares`, net of the withdrawal fee
+     */
+    function previewRedeem(uint256 shares) public view override returns (uint256) {
+        uint256 assets = super.previewRedeem(shares);
+        return assets - _feeOnTotal(assets, withdrawalFeeBps);
+    }
+
+    /**
+     * @notice Maximum deposit (zero while paused)
+     */
+    function maxDeposit(address) public view override returns (uint256) {
+        return paused() ? 0 : type(uint256).max;
+    }
+
+    /**
+     * @notice Maximum mint (zero while paused)
+     */
+    function maxMint(address) public view override returns (uint256) {
+        return paused() ? 0 : type(uint256).max;
+    }
+
+    /**
+     * @notice Maximum assets owner can withdraw, limited by liquidity not allocated to agents
+     */
+    function maxWithdraw(address owner) public view override returns (uint256) {
+        if (paused()) return 0;
+        uint256 assets = previewRedeem(balanceOf(owner));
+        uint256 liquidAssets = _liquidAssets();
+        return assets < liquidAssets ? assets : liquidAssets;
+    }
+
+    /**
+     * @notice Maximum shares owner can redeem, limited by liquidity not allocated to agents
+     */
+    function maxRedeem(address owner) public view override returns (uint256) {
+        if (paused()) return 0;
+        uint256 shares = balanceOf(owner);
+        uint256 liquidShares = _convertToShares(_liquidAssets(), Math.Rounding.Floor);
+        return shares < liquidShares ? shares : liquidShares;
+    }
+
+    /**
+     * @dev Deposit hook shared by depositLiquidity and the ERC4626 entry points
+     */
+    function _deposit(
+        address caller,
+        address receiver,
+        uint256 assets,
+        uint256 shares
+    ) internal override whenNotPaused {
         require(assets >= minDeposit, "HyperFillVault: Below minimum deposit");
         require(assets > 0, "HyperFillVault: Cannot deposit zero");
-        
-        // Calculate shares to mint using ERC4626 logic
-        shares = previewDeposit(assets);
         require(shares > 0, "HyperFillVault: Zero shares calculated");
 
-        // Update shareToUser mapping
-        shareToUser[msg.sender] += shares;  
+        super._deposit(caller, receiver, assets, shares);
         
-        // Transfer assets from user to vault
-        IERC20(asset()).transferFrom(msg.sender, address(this), assets);
-        
-        // Mint shares to user
-        _mint(msg.sender, shares);
-        
-        emit LiquidityAdded(msg.sender, assets, shares);
+        emit LiquidityAdded(receiver, assets, shares);
+    }
+
+    /**
+     * @dev Withdrawal hook shared by withdrawProfits and the ERC4626 entry points
+     * @param assets Net assets sent to receiver; the withdrawal fee stays in the vault
+     */
+    function _withdraw(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal override whenNotPaused {
+        require(assets > 0, "HyperFillVault: Zero assets calculated");
+
+        // Update accumulated withdrawal fees
+        accumulatedWithdrawalFees += _feeOnRaw(assets, withdrawalFeeBps);
+
+        super._withdraw(caller, receiver, owner, assets, shares);
         
-        return shares;
+        emit LiquidityRemoved(owner, assets, shares);
+    }
+
+    /**
+     * @dev Fee to add on top of an amount that excludes the fee
+     */
+    function _feeOnRaw(uint256 assets, uint256 feeBps) internal pure returns (uint256) {
+        return Math.mulDiv(assets, feeBps, 10000, Math.Rounding.Ceil);
+    }
+
+    /**
+     * @dev Fee part of an amount that already includes the fee
+     */
+    function _feeOnTotal(uint256 assets, uint256 feeBps) internal pure returns (uint256) {
+        return Math.mulDiv(assets, feeBps, feeBps + 10000, Math.Rounding.Ceil);
     }
     
+    // ===== REDEEM REQUESTS =====
+
     /**
-     * @notice Remove liquidity from the vault with withdrawal fee
-     * @return assets Amount of SEI tokens returned after withdrawal fee
+     * @notice Lock shares into a pending redeem request (ERC-7540 style)
+     * @dev Use when liquidity is allocated to agents. The request joins the current epoch and
+     * becomes claimable once the epoch is fulfilled.
+     * @param shares Number of shares to redeem
+     * @param controller Address that may cancel the request and claim its assets
+     * @param owner Address the shares are taken from; caller needs an allowance if different
+     * @return requestId Id of the new request
      */
-    function withdrawProfits() 
-        external 
-        nonReentrant 
-        whenNotPaused 
-        returns (uint256 assets) 
+    function requestRedeem(
+        uint256 shares,
+        address controller,
+        address owner
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        returns (uint256 requestId)
     {
-        // Calculate management fees before withdrawal
-        calculateManagementFees();
-        
-        uint256 shares = shareToUser[msg.sender];
         require(shares > 0, "HyperFillVault: Cannot redeem zero shares");
-        require(balanceOf(msg.sender) >= shares, "HyperFillVault: Insufficient shares");
+        require(controller != address(0), "HyperFillVault: Invalid controller");
 
-        // Calculate gross assets to return using ERC4626 logic
-        uint256 grossAssets = previewRedeem(shares);
-        require(grossAssets > 0, "HyperFillVault: Zero assets calculated");
+        if (msg.sender != owner) {
+            _spendAllowance(owner, msg.sender, shares);
+        }
+        // Shares are held by the vault until the request is fulfilled or cancelled
+        _transfer(owner, address(this), shares);
 
-        // Calculate withdrawal fee (0.1%)
-        uint256 withdrawalFee = (grossAssets * withdrawalFeeBps) / 10000;
-        assets = grossAssets - withdrawalFee;
+        requestId = ++lastRedeemRequestId;
+        redeemRequests[requestId] = RedeemRequest({
+            controller: controller,
+            owner: owner,
+            shares: shares,
+            epoch: currentRedeemEpoch
+        });
+        redeemEpochs[currentRedeemEpoch].shares += shares;
 
-        // Update accumulated withdrawal fees
-        accumulatedWithdrawalFees += withdrawalFee;
+        emit RedeemRequested(controller, owner, requestId, msg.sender, shares);
 
-        shareToUser[msg.sender] -= shares;
-        
-        // Burn shares from user
-        _burn(msg.sender, shares);
-        
-        // Transfer net assets to user (after withdrawal fee)
-        IERC20(asset()).transfer(msg.sender, assets);
-        
-        emit LiquidityRemoved(msg.sender, assets, shares);
-        
-        return assets;
+        // Signal agents when pending redemptions exceed the vault's liquidity
+        uint256 capitalToRecall = getCapitalToRecall();
+        if (capitalToRecall > 0) {
+            emit CapitalRecallRequested(currentRedeemEpoch, capitalToRecall);
+        }
+    }
+
+    /**
+     * @notice Cancel a pending redeem request and return its shares to the owner they were taken from
+     * @dev Only the controller may cancel
+     * @param requestId Request to cancel
+     */
+    function cancelRedeemRequest(uint256 requestId) external nonReentrant {
+        RedeemRequest memory request = redeemRequests[requestId];
+        require(request.controller == msg.sender, "HyperFillVault: Not request controller");
+        require(!redeemEpochs[request.epoch].fulfilled, "HyperFillVault: Request already fulfilled");
+
+        redeemEpochs[request.epoch].shares -= request.shares;
+        delete redeemRequests[requestId];
+
+        _transfer(address(this), request.owner, request.shares);
+
+        emit RedeemRequestCancelled(requestId, msg.sender, request.shares);
+    }
+
+    /**
+     * @notice Fulfill every request in the current epoch at the current share price
+     * @dev Callable by anyone once the vault holds enough liquidity. Burns the locked shares,
+     * books the withdrawal fee and reserves the net assets for claiming.
+     */
+    function fulfillRedeemEpoch() external nonReentrant whenNotPaused {
+        // Calculate management fees before pricing the epoch
+        calculateManagementFees();
+
+        uint256 epoch = currentRedeemEpoch;
+        uint256 shares = redeemEpochs[epoch].shares;
+        require(shares > 0, "HyperFillVault: No pending redeem requests");
+
+        uint256 assets = previewRedeem(shares);
+        require(assets > 0, "HyperFillVault: Zero assets calculated");
+        require(assets <= _liquidAssets(), "HyperFillVault: Insufficient liquidity to fulfill");
+
+        accumulatedWithdrawalFees += _feeOnRaw(assets, withdrawalFeeBps);
+        _burn(address(this), shares);
+
+        totalClaimableRedeemAssets += assets;
+        redeemEpochs[epoch].assets = assets;
+        redeemEpochs[epoch].fulfilled = true;
+        currentRedeemEpoch = epoch + 1;
+
+        emit RedeemEpochFulfilled(epoch, shares, assets);
+    }
+
+    /**
+     * @notice Claim the assets of a fulfilled redeem request
+     * @param requestId Request to claim
+     * @param receiver Address receiving the assets
+     * @return assets Amount of SEI tokens sent to receiver
+     */
+    function claimRedeem(
+        uint256 requestId,
+        address receiver
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        returns (uint256 assets)
+    {
+        RedeemRequest memory request = redeemRequests[requestId];
+        require(request.controller == msg.sender, "HyperFillVault: Not request controller");
+
+        RedeemEpoch memory epoch = redeemEpochs[request.epoch];
+        require(epoch.fulfilled, "HyperFillVault: Request not fulfilled");
+
+        // Each request gets its pro-rata part of the epoch's assets
+        assets = Math.mulDiv(request.shares, epoch.assets, epoch.shares);
+
+        delete redeemRequests[requestId];
+        totalClaimableRedeemAssets -= assets;
+
+        IERC20(asset()).transfer(receiver, assets);
+
+        emit RedeemClaimed(requestId, msg.sender, receiver, assets);
+    }
+
+    /**
+     * @notice Shares of a request still waiting to be fulfilled
+     * @param requestId Request id
+     * @param controller Request controller
+     * @return shares Pending shares (0 once fulfilled or for another controller)
+     */
+    function pendingRedeemRequest(uint256 requestId, address controller) external view returns (uint256 shares) {
+        RedeemRequest memory request = redeemRequests[requestId];
+        if (request.controller != controller || redeemEpochs[request.epoch].fulfilled) {
+            return 0;
+        }
+        return request.shares;
+    }
+
+    /**
+     * @notice Shares of a request that can be claimed
+     * @param requestId Request id
+     * @param controller Request controller
+     * @return shares Claimable shares (0 while pending or for another controller)
+     */
+    function claimableRedeemRequest(uint256 requestId, address controller) external view returns (uint256 shares) {
+        RedeemRequest memory request = redeemRequests[requestId];
+        if (request.controller != controller || !redeemEpochs[request.epoch].fulfilled) {
+            return 0;
+        }
+        return request.shares;
+    }
+
+    /**
+     * @notice Assets needed to fulfill the current redeem epoch
+     * @return Net assets owed to pending requests at the current share price
+     */
+    function getPendingRedeemAssets() public view returns (uint256) {
+        return previewRedeem(redeemEpochs[currentRedeemEpoch].shares);
+    }
+
+    /**
+     * @notice Capital agents must return before the current redeem epoch can be fulfilled
+     * @return Shortfall between pending redemptions and the vault's liquidity
+     */
+    function getCapitalToRecall() public view returns (uint256) {
+        uint256 pendingAssets = getPendingRedeemAssets();
+        uint256 liquidAssets = _liquidAssets();
+        return pendingAssets > liquidAssets ? pendingAssets - liquidAssets : 0;
     }
     
     // ===== AGENT MANAGEMENT =====
 
     /**
      * @notice Move liquidity from vault to agent trading wallet
+     * @dev The wallet must have reserved itself for the caller with reserveWallet
      * @param amount Amount to transfer to agent
      * @param tradingWallet Destination wallet for trading
      */
@@ -234,21 +729,32 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
         nonReentrant 
         whenNotPaused 
     {
-        require(authorizedAgents[msg.sender], "HyperFillVault: Agent not authorized");
+        // Calculate management fees before allocating
+        calculateManagementFees();
+
+        _requireWalletAgent(tradingWallet);
         require(amount > 0, "HyperFillVault: Cannot move zero amount");
-        require(tradingWallet != address(0), "HyperFillVault: Invalid trading wallet");
         
-        // Check available liquidity (not already allocated)
-        uint256 availableAssets = totalAssets() - totalAllocated;
-        require(amount <= availableAssets, "HyperFillVault: Insufficient available liquidity");
+        // Check available liquidity (not already allocated or reserved for fees)
+        require(amount <= _liquidAssets(), "HyperFillVault: Insufficient available liquidity");
         
         // Check allocation limits (90% max)
         uint256 newTotalAllocated = totalAllocated + amount;
         uint256 maxAllocation = (totalAssets() * maxAllocationBps) / 10000;
         require(newTotalAllocated <= maxAllocation, "HyperFillVault: Exceeds max allocation");
+
+        // Check the agent's own allocation cap, if one is set
+        uint256 agentCapBps = agentMaxAllocationBps[msg.sender];
+        if (agentCapBps > 0) {
+            uint256 maxAgentAllocation = (totalAssets() * agentCapBps) / 10000;
+            require(
+                agentAllocated[msg.sender] + amount <= maxAgentAllocation,
+                "HyperFillVault: Exceeds agent allocation cap"
+            );
+        }
         
         // Update allocations
-        totalAllocated += amount;
+        _increaseAllocation(msg.sender, tradingWallet, amount);
         
         // Transfer to trading wallet
         IERC20(asset()).transfer(tradingWallet, amount);
@@ -258,8 +764,10 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
 
     /**
      * @notice Move funds from trading wallet back to vault
+     * @dev Only from a wallet the calling agent has capital allocated to. Capital lost while
+     * trading is written off separately through realizeLoss
      * @param amount Amount to transfer back to vault
-     * @param profitAmount Amount of profit (for tracking)
+     * @param profitAmount Part of `amount` that is profit; at most the wallet's balance above its allocation
      * @param fromWallet Source wallet address
      */
     function moveFromWalletToVault(
@@ -274,23 +782,70 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
         // Calculate management fees before processing return
         calculateManagementFees();
         
-        require(authorizedAgents[msg.sender], "HyperFillVault: Agent not authorized");
+        _requireWalletAgent(fromWallet);
         require(amount > 0, "HyperFillVault: Cannot move zero amount");
-        require(fromWallet != address(0), "HyperFillVault: Invalid source wallet");
+        require(profitAmount <= amount, "HyperFillVault: Profit exceeds amount");
+
+        uint256 allocatedAmount = walletAllocated[msg.sender][fromWallet];
+        require(allocatedAmount > 0, "HyperFillVault: No capital allocated to wallet");
 
         uint256 capitalReturned = amount - profitAmount; 
+        require(capitalReturned <= allocatedAmount, "HyperFillVault: Exceeds wallet allocation");
+
+        // Profit is bounded by what the wallet actually holds above its allocated capital
+        uint256 walletBalance = IERC20(asset()).balanceOf(fromWallet);
+        uint256 surplus = walletBalance > allocatedAmount ? walletBalance - allocatedAmount : 0;
+        require(profitAmount <= surplus, "HyperFillVault: Profit exceeds wallet surplus");
         
         // Transfer tokens from wallet to vault
         IERC20(asset()).transferFrom(fromWallet, address(this), amount);
 
-        // Update allocations (reduce by capital returned)
-        totalAllocated -= capitalReturned;
+        // Update the calling agent's allocation (reduce by capital returned)
+        _decreaseAllocation(msg.sender, fromWallet, capitalReturned, amount);
         
         emit SpecificAmountReturned(msg.sender, fromWallet, amount);
     }
     
     /**
-     * @notice Return all allocated capital back to vault (end trading session)
+     * @notice Write off capital the calling agent lost in a trading wallet
+     * @dev Reduces the agent's allocation without moving funds; share price drops by the loss
+     * @param lossAmount Amount of allocated capital that was lost
+     * @param fromWallet Trading wallet that incurred the loss
+     */
+    function realizeLoss(
+        uint256 lossAmount,
+        address fromWallet
+    )
+        external
+        nonReentrant
+        whenNotPaused
+    {
+        // Calculate management fees before writing off capital
+        calculateManagementFees();
+
+        require(hasRole(AGENT_ROLE, msg.sender), "HyperFillVault: Agent not authorized");
+        require(lossAmount > 0, "HyperFillVault: Cannot realize zero loss");
+        require(
+            lossAmount <= walletAllocated[msg.sender][fromWallet],
+            "HyperFillVault: Loss exceeds wallet allocation"
+        );
+
+        // A realized loss caps the wallet's marked value at its remaining cost
+        uint256 remainingCapital = walletAllocated[msg.sender][fromWallet] - lossAmount;
+        uint256 walletValue = _walletValue(msg.sender, fromWallet);
+        _decreaseAllocation(
+            msg.sender,
+            fromWallet,
+            lossAmount,
+            walletValue > remainingCapital ? walletValue - remainingCapital : 0
+        );
+        _recordLoss(msg.sender, fromWallet, lossAmount);
+    }
+    
+    /**
+     * @notice Return all capital the calling agent allocated to a wallet (end trading session)
+     * @dev The wallet is reserved for the caller, so its whole balance is the caller's capital
+     * and profit. Any shortfall against the allocation is realized as a loss.
      * @param fromWallet Source wallet address
      */
     function returnAllCapital(address fromWallet) 
@@ -298,91 +853,306 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
         nonReentrant 
         whenNotPaused 
     {
-        require(authorizedAgents[msg.sender], "HyperFillVault: Agent not authorized");
-        require(fromWallet != address(0), "HyperFillVault: Invalid source wallet");
+        // Calculate management fees before processing return
+        calculateManagementFees();
+
+        _requireWalletAgent(fromWallet);
         
-        uint256 allocatedAmount = totalAllocated;
+        uint256 allocatedAmount = walletAllocated[msg.sender][fromWallet];
+        require(allocatedAmount > 0, "HyperFillVault: No capital allocated to wallet");
         
-        // Check wallet balance
-        uint256 walletBalance = IERC20(asset()).balanceOf(fromWallet);
-        require(walletBalance >= allocatedAmount, "HyperFillVault: Insufficient balance in wallet");
+        // Return everything in wallet
+        uint256 totalToReturn = IERC20(asset()).balanceOf(fromWallet);
         
         // Calculate profit/loss
-        uint256 totalToReturn = walletBalance; // Return everything in wallet
-        uint256 profitOrLoss = totalToReturn > allocatedAmount ? 
+        uint256 profitAmount = totalToReturn > allocatedAmount ? 
                               totalToReturn - allocatedAmount : 0;
+        uint256 lossAmount = totalToReturn < allocatedAmount ?
+                              allocatedAmount - totalToReturn : 0;
         
         // Transfer all funds back
-        IERC20(asset()).transferFrom(fromWallet, address(this), totalToReturn);
+        if (totalToReturn > 0) {
+            IERC20(asset()).transferFrom(fromWallet, address(this), totalToReturn);
+        }
         
-        // Reset agent allocation
-        totalAllocated -= allocatedAmount;
+        // Reset the agent's allocation to this wallet
+        _decreaseAllocation(msg.sender, fromWallet, allocatedAmount, totalToReturn);
+
+        if (lossAmount > 0) {
+            _recordLoss(msg.sender, fromWallet, lossAmount);
+        }
         
-        emit ProfitsReturned(msg.sender, fromWallet, profitOrLoss);
+        emit ProfitsReturned(msg.sender, fromWallet, profitAmount);
         emit LiquidityReturned(msg.sender, fromWallet, totalToReturn);
         emit AllCapitalReturned(msg.sender, fromWallet, totalToReturn);
         
-        if (profitOrLoss > 0) {
-            emit ProfitsDeposited(profitOrLoss);
+        if (profitAmount > 0) {
+            emit ProfitsDeposited(profitAmount);
+            _crystallizePerformanceFee();
         }
     }
     
+    /**
+     * @notice Reserve the calling trading wallet for one agent
+     * @dev A wallet must reserve itself before it can be funded. Only that agent can then allocate
+     * capital to the wallet or return capital from it, so wallets are never shared between agents
+     * and cannot be swept by another one. The reservation is permanent.
+     * @param agent Agent allowed to fund the wallet
+     */
+    function reserveWallet(address agent) external {
+        require(agent != address(0), "HyperFillVault: Invalid agent address");
+        require(walletAgent[msg.sender] == address(0), "HyperFillVault: Wallet already reserved");
+        walletAgent[msg.sender] = agent;
+        emit WalletReserved(msg.sender, agent);
+    }
+
+    /**
+     * @notice Post a mark-to-market value for a trading wallet
+     * @dev Callable by the agent that funded the wallet or by a NAV oracle. Reports must be fresher
+     * than the current mark, at most maxReportStaleness old, and within maxReportDeviationBps of
+     * the wallet's allocated cost, so chained reports cannot walk the mark away from it. Gains
+     * beyond that are only booked when capital is returned.
+     * @param agent Agent that allocated capital to the wallet
+     * @param wallet Trading wallet being marked
+     * @param value Current value of the wallet in underlying assets
+     * @param asOf Timestamp the valuation was taken at
+     */
+    function reportWalletValue(
+        address agent,
+        address wallet,
+        uint256 value,
+        uint256 asOf
+    )
+        external
+        whenNotPaused
+    {
+        require(
+            (msg.sender == agent && hasRole(AGENT_ROLE, agent)) || navOracles[msg.sender],
+            "HyperFillVault: Not authorized to report"
+        );
+        require(walletAllocated[agent][wallet] > 0, "HyperFillVault: No capital allocated to wallet");
+        require(asOf <= block.timestamp, "HyperFillVault: Report from the future");
+        require(block.timestamp - asOf <= maxReportStaleness, "HyperFillVault: Report too stale");
+        require(asOf > walletMarkedAt[agent][wallet], "HyperFillVault: Report older than current mark");
+
+        uint256 cost = walletAllocated[agent][wallet];
+        uint256 deviation = value > cost ? value - cost : cost - value;
+        require(
+            deviation * 10000 <= cost * maxReportDeviationBps,
+            "HyperFillVault: Report deviation too high"
+        );
+
+        // Calculate management fees at the old valuation
+        calculateManagementFees();
+
+        walletMarkedValue[agent][wallet] = value;
+        walletMarkedAt[agent][wallet] = asOf;
+
+        emit WalletValueReported(agent, wallet, msg.sender, value, asOf);
+    }
+
+    /**
+     * @notice Current value of all allocations (marked value where fresh, cost otherwise)
+     * @dev Iterates over at most MAX_ALLOCATED_WALLETS wallets
+     */
+    function totalAllocatedValue() public view returns (uint256) {
+        (uint256 value, ) = _allocatedValue();
+        return value;
+    }
+
+    /**
+     * @dev Current value of all allocations and the part of it that marks add above cost
+     */
+    function _allocatedValue() internal view returns (uint256 value, uint256 unrealizedGain) {
+        address[] memory agents = _allocatingAgents.values();
+        for (uint256 i = 0; i < agents.length; i++) {
+            address[] memory wallets = _agentWallets[agents[i]].values();
+            for (uint256 j = 0; j < wallets.length; j++) {
+                uint256 walletValue = _walletValue(agents[i], wallets[j]);
+                uint256 cost = walletAllocated[agents[i]][wallets[j]];
+                value += walletValue;
+                if (walletValue > cost) {
+                    unrealizedGain += walletValue - cost;
+                }
+            }
+        }
+    }
+
+    /**
+     * @dev Current value of a wallet: its last mark while fresh, otherwise its cost
+     */
+    function _walletValue(address agent, address wallet) internal view returns (uint256) {
+        if (!_isMarkFresh(agent, wallet)) {
+            return walletAllocated[agent][wallet];
+        }
+        return walletMarkedValue[agent][wallet];
+    }
+
+    /**
+     * @dev Whether a wallet has a mark no older than maxReportStaleness
+     */
+    function _isMarkFresh(address agent, address wallet) internal view returns (bool) {
+        uint256 markedAt = walletMarkedAt[agent][wallet];
+        return markedAt != 0 && block.timestamp - markedAt <= maxReportStaleness;
+    }
+
+    /**
+     * @dev Reject the caller unless it is an authorized agent and the wallet has reserved itself for it
+     */
+    function _requireWalletAgent(address wallet) internal view {
+        require(hasRole(AGENT_ROLE, msg.sender), "HyperFillVault: Agent not authorized");
+        require(walletAgent[wallet] == msg.sender, "HyperFillVault: Wallet not reserved for agent");
+    }
+
+    /**
+     * @dev Record capital moved out to an agent's trading wallet
+     */
+    function _increaseAllocation(address agent, address wallet, uint256 amount) internal {
+        totalAllocated += amount;
+        agentAllocated[agent] += amount;
+        walletAllocated[agent][wallet] += amount;
+
+        // New capital adds to a marked wallet at face value
+        if (walletMarkedAt[agent][wallet] != 0) {
+            walletMarkedValue[agent][wallet] += amount;
+        }
+
+        _allocatingAgents.add(agent);
+        if (_agentWallets[agent].add(wallet)) {
+            require(++_allocatedWalletCount <= MAX_ALLOCATED_WALLETS, "HyperFillVault: Too many allocated wallets");
+        }
+    }
+
+    /**
+     * @dev Release capital from an agent's trading wallet allocation
+     * @param amount Capital (cost basis) released from the allocation
+     * @param valueReleased Value taken out of a marked wallet; ignored for unmarked wallets
+     */
+    function _decreaseAllocation(
+        address agent,
+        address wallet,
+        uint256 amount,
+        uint256 valueReleased
+    ) internal {
+        totalAllocated -= amount;
+        agentAllocated[agent] -= amount;
+        walletAllocated[agent][wallet] -= amount;
+
+        if (walletAllocated[agent][wallet] == 0) {
+            // A fully settled wallet drops its mark
+            delete walletMarkedValue[agent][wallet];
+            delete walletMarkedAt[agent][wallet];
+            _agentWallets[agent].remove(wallet);
+            _allocatedWalletCount--;
+        } else if (walletMarkedAt[agent][wallet] != 0) {
+            uint256 markedValue = walletMarkedValue[agent][wallet];
+            walletMarkedValue[agent][wallet] = markedValue > valueReleased ? markedValue - valueReleased : 0;
+        }
+        if (agentAllocated[agent] == 0) {
+            _allocatingAgents.remove(agent);
+        }
+    }
+    
+    /**
+     * @dev Book capital that was written off against an agent's allocation
+     */
+    function _recordLoss(address agent, address wallet, uint256 amount) internal {
+        totalRealizedLoss += amount;
+        agentRealizedLoss[agent] += amount;
+        emit LossRealized(agent, wallet, amount);
+    }
+    
     // ===== ADMIN FUNCTIONS =====
     
     /**
      * @notice Add authorized agent
+     * @dev Equivalent to granting AGENT_ROLE
      * @param agent Agent address to authorize
      */
-    function addAuthorizedAgent(address agent) external onlyOwner {
+    function addAuthorizedAgent(address agent) external onlyRole(AGENT_MANAGER_ROLE) {
         require(agent != address(0), "HyperFillVault: Invalid agent address");
-        authorizedAgents[agent] = true;
-        authorizedAgentsList.push(agent);
+        _grantRole(AGENT_ROLE, agent);
     }
 
-    function removeAuthorizedAgent(address agent) external onlyOwner {
-        uint256 index = type(uint256).max;
-        for (uint256 i = 0; i < authorizedAgentsList.length; i++) {
-            if (authorizedAgentsList[i] == agent) {
-                index = i;
-                break;
-            }
-        }
-        
-        require(index != type(uint256).max, "Not found");
-        
-        authorizedAgentsList[index] = authorizedAgentsList[authorizedAgentsList.length - 1];
-        authorizedAgentsList.pop();
-        authorizedAgents[agent] = false;
+    /**
+     * @notice Remove authorized agent
+     * @dev Equivalent to revoking AGENT_ROLE
+     * @param agent Agent address to revoke
+     */
+    function removeAuthorizedAgent(address agent) external onlyRole(AGENT_MANAGER_ROLE) {
+        require(_revokeRole(AGENT_ROLE, agent), "HyperFillVault: Agent not found");
     }
     
     /**
      * @notice Set maximum allocation percentage
      * @param newMaxBps New maximum allocation in basis points
      */
-    function setMaxAllocation(uint256 newMaxBps) external onlyOwner {
+    function setMaxAllocation(uint256 newMaxBps) external onlyRole(RISK_MANAGER_ROLE) {
         require(newMaxBps <= 10000, "HyperFillVault: Cannot exceed 100%");
+        uint256 oldMaxBps = maxAllocationBps;
         maxAllocationBps = newMaxBps;
+        emit MaxAllocationSet(newMaxBps, oldMaxBps);
+    }
+    
+    /**
+     * @notice Set an agent's own allocation cap, applied alongside the global max allocation
+     * @param agent Agent address
+     * @param newCapBps New cap in basis points of total assets (0 = only the global cap applies)
+     */
+    function setAgentMaxAllocation(address agent, uint256 newCapBps) external onlyRole(RISK_MANAGER_ROLE) {
+        require(agent != address(0), "HyperFillVault: Invalid agent address");
+        require(newCapBps <= 10000, "HyperFillVault: Cannot exceed 100%");
+        uint256 oldCapBps = agentMaxAllocationBps[agent];
+        agentMaxAllocationBps[agent] = newCapBps;
+        emit AgentAllocationCapSet(agent, newCapBps, oldCapBps);
+    }
+    
+    /**
+     * @notice Authorize or revoke a NAV oracle
+     * @param oracle Oracle address
+     * @param authorized Whether the oracle may post mark-to-market reports
+     */
+    function setNavOracle(address oracle, bool authorized) external onlyRole(RISK_MANAGER_ROLE) {
+        require(oracle != address(0), "HyperFillVault: Invalid oracle address");
+        navOracles[oracle] = authorized;
+        emit NavOracleSet(oracle, authorized);
+    }
+
+    /**
+     * @notice Set limits on mark-to-market reports
+     * @param newMaxStaleness Maximum age of a report when posted (seconds)
+     * @param newMaxDeviationBps Maximum distance of a wallet's mark from its cost (basis points)
+     */
+    function setReportLimits(uint256 newMaxStaleness, uint256 newMaxDeviationBps) external onlyRole(RISK_MANAGER_ROLE) {
+        require(newMaxStaleness > 0, "HyperFillVault: Invalid staleness limit");
+        require(newMaxDeviationBps <= 10000, "HyperFillVault: Cannot exceed 100%");
+        maxReportStaleness = newMaxStaleness;
+        maxReportDeviationBps = newMaxDeviationBps;
+        emit ReportLimitsSet(newMaxStaleness, newMaxDeviationBps);
     }
     
     /**
      * @notice Set minimum deposit amount
      * @param newMinDeposit New minimum deposit amount
      */
-    function setMinDeposit(uint256 newMinDeposit) external onlyOwner {
+    function setMinDeposit(uint256 newMinDeposit) external onlyRole(RISK_MANAGER_ROLE) {
+        uint256 oldMinDeposit = minDeposit;
         minDeposit = newMinDeposit;
+        emit MinDepositSet(newMinDeposit, oldMinDeposit);
     }
-    
+
     /**
      * @notice Emergency pause
+     * @dev Guardians act immediately, even when the other roles sit behind a HyperFillTimelock
      */
-    function pause() external onlyOwner {
+    function pause() external onlyRole(GUARDIAN_ROLE) {
         _pause();
     }
     
     /**
      * @notice Unpause
      */
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
         _unpause();
     }
 
@@ -392,7 +1162,7 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
      * @notice Set management fee rate
      * @param newFeeBps New management fee in basis points per year (max 500 = 5%)
      */
-    function setManagementFee(uint256 newFeeBps) external onlyOwner {
+    function setManagementFee(uint256 newFeeBps) external onlyRole(FEE_MANAGER_ROLE) {
         require(newFeeBps <= 500, "HyperFillVault: Management fee too high"); // Max 5%
         
         // Calculate any pending fees with the OLD rate before changing
@@ -403,11 +1173,49 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
         emit ManagementFeeSet(newFeeBps, oldFeeBps);
     }
 
+    /**
+     * @notice Set performance fee rate
+     * @param newFeeBps New performance fee in basis points of gains (max 3000 = 30%)
+     */
+    function setPerformanceFee(uint256 newFeeBps) external onlyRole(FEE_MANAGER_ROLE) {
+        require(newFeeBps <= 3000, "HyperFillVault: Performance fee too high"); // Max 30%
+        
+        // Crystallize gains so far with the OLD rate before changing
+        calculateManagementFees();
+        _crystallizePerformanceFee();
+        
+        uint256 oldFeeBps = performanceFeeBps;
+        performanceFeeBps = newFeeBps;
+        emit PerformanceFeeSet(newFeeBps, oldFeeBps);
+    }
+
+    /**
+     * @notice Set minimum time between scheduled performance fee crystallizations
+     * @param newInterval New interval in seconds (max 365 days)
+     */
+    function setPerformanceFeeInterval(uint256 newInterval) external onlyRole(FEE_MANAGER_ROLE) {
+        require(newInterval <= 365 days, "HyperFillVault: Interval too long");
+        uint256 oldInterval = performanceFeeInterval;
+        performanceFeeInterval = newInterval;
+        emit PerformanceFeeIntervalSet(newInterval, oldInterval);
+    }
+
+    /**
+     * @notice Choose whether management and performance fees are paid as HPF shares
+     * @dev Minting shares keeps the fee assets invested instead of pulling WSEI out of the vault.
+     * Withdrawal fees are always paid in WSEI.
+     * @param inShares True to mint shares to the fee recipient, false to transfer WSEI
+     */
+    function setFeesInShares(bool inShares) external onlyRole(FEE_MANAGER_ROLE) {
+        feesInShares = inShares;
+        emit FeesInSharesSet(inShares);
+    }
+
     /**
      * @notice Set withdrawal fee rate
      * @param newFeeBps New withdrawal fee in basis points (max 100 = 1%)
      */
-    function setWithdrawalFee(uint256 newFeeBps) external onlyOwner {
+    function setWithdrawalFee(uint256 newFeeBps) external onlyRole(FEE_MANAGER_ROLE) {
         require(newFeeBps <= 100, "HyperFillVault: Withdrawal fee too high"); // Max 1%
         uint256 oldFeeBps = withdrawalFeeBps;
         withdrawalFeeBps = newFeeBps;
@@ -418,7 +1226,7 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
      * @notice Set fee recipient address
      * @param newRecipient Address to receive fees
      */
-    function setFeeRecipient(address newRecipient) external onlyOwner {
+    function setFeeRecipient(address newRecipient) external onlyRole(FEE_MANAGER_ROLE) {
         require(newRecipient != address(0), "HyperFillVault: Invalid fee recipient");
         address oldRecipient = feeRecipient;
         feeRecipient = newRecipient;
@@ -426,11 +1234,13 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
     }
 
     /**
-     * @notice Withdraw all accumulated fees
+     * @notice Withdraw accumulated fees
+     * @dev Share fees are minted in full. WSEI fees are only paid out of the balance not owed to
+     * claimable redemptions; whatever does not fit stays accumulated for a later withdrawal
      */
     function withdrawFees() external {
         require(
-            msg.sender == feeRecipient || msg.sender == owner(), 
+            msg.sender == feeRecipient || hasRole(FEE_MANAGER_ROLE, msg.sender), 
             "HyperFillVault: Not authorized to withdraw fees"
         );
         require(feeRecipient != address(0), "HyperFillVault: No fee recipient set");
@@ -438,20 +1248,40 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
         // Calculate any pending management fees first
         calculateManagementFees();
         
+        // Limit WSEI fees to what the vault can pay without touching claimable redemptions
+        uint256 available = _unreservedBalance();
+        uint256 withdrawalFees = Math.min(accumulatedWithdrawalFees, available);
+        available -= withdrawalFees;
         uint256 managementFees = accumulatedManagementFees;
-        uint256 withdrawalFees = accumulatedWithdrawalFees;
-        uint256 totalFees = managementFees + withdrawalFees;
+        uint256 performanceFees = accumulatedPerformanceFees;
+        if (!feesInShares) {
+            managementFees = Math.min(managementFees, available);
+            available -= managementFees;
+            performanceFees = Math.min(performanceFees, available);
+        }
+        uint256 totalFees = managementFees + withdrawalFees + performanceFees;
         
         require(totalFees > 0, "HyperFillVault: No fees to withdraw");
+
+        // Price fee shares while the fees are still deducted from total assets
+        uint256 shareFees = feesInShares ? managementFees + performanceFees : 0;
+        uint256 feeShares = _convertToShares(shareFees, Math.Rounding.Floor);
         
-        // Reset accumulated fees
-        accumulatedManagementFees = 0;
-        accumulatedWithdrawalFees = 0;
+        // Deduct the fees being paid; any unpaid remainder carries forward
+        accumulatedManagementFees -= managementFees;
+        accumulatedWithdrawalFees -= withdrawalFees;
+        accumulatedPerformanceFees -= performanceFees;
         
-        // Transfer fees
-        IERC20(asset()).transfer(feeRecipient, totalFees);
+        // Mint share fees and transfer the rest
+        if (feeShares > 0) {
+            _mint(feeRecipient, feeShares);
+            emit FeesMintedAsShares(feeRecipient, shareFees, feeShares);
+        }
+        if (totalFees > shareFees) {
+            IERC20(asset()).transfer(feeRecipient, totalFees - shareFees);
+        }
         
-        emit FeesWithdrawn(feeRecipient, managementFees, withdrawalFees, totalFees);
+        emit FeesWithdrawn(feeRecipient, managementFees, withdrawalFees, performanceFees, totalFees);
     }
     
     // ===== VIEW FUNCTIONS =====
@@ -461,7 +1291,18 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
      * @return Available assets amount
      */
     function getAvailableAssets() external view returns (uint256) {
-        return totalAssets() - totalAllocated;
+        return _liquidAssets();
+    }
+
+    /**
+     * @notice Check whether a wallet's mark is older than the staleness limit
+     * @dev Stale wallets are valued at cost until a fresh report is posted
+     * @param agent Agent that allocated capital to the wallet
+     * @param wallet Trading wallet
+     * @return True if the wallet is marked and its last report is stale
+     */
+    function isWalletMarkStale(address agent, address wallet) external view returns (bool) {
+        return walletMarkedAt[agent][wallet] != 0 && !_isMarkFresh(agent, wallet);
     }
     
     /**
@@ -478,7 +1319,50 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
      * @return Array of authorized agent addresses
      */
     function getAuthorizedAgents() external view returns (address[] memory) {
-        return authorizedAgentsList;
+        return getRoleMembers(AGENT_ROLE);
+    }
+
+    /**
+     * @notice Check whether an address is an authorized agent
+     * @param agent Agent address
+     */
+    function authorizedAgents(address agent) external view returns (bool) {
+        return hasRole(AGENT_ROLE, agent);
+    }
+
+    /**
+     * @notice Get an agent's outstanding capital per trading wallet
+     * @param agent Agent address
+     * @return wallets Trading wallets holding capital allocated by the agent
+     * @return amounts Outstanding allocation for each wallet
+     */
+    function getAgentAllocations(address agent) 
+        external 
+        view 
+        returns (address[] memory wallets, uint256[] memory amounts) 
+    {
+        wallets = _agentWallets[agent].values();
+        amounts = new uint256[](wallets.length);
+        for (uint256 i = 0; i < wallets.length; i++) {
+            amounts[i] = walletAllocated[agent][wallets[i]];
+        }
+    }
+
+    /**
+     * @notice Get every agent with outstanding capital and how much each holds
+     * @return agents Agents with outstanding allocations
+     * @return amounts Outstanding allocation for each agent
+     */
+    function getAllAgentAllocations() 
+        external 
+        view 
+        returns (address[] memory agents, uint256[] memory amounts) 
+    {
+        agents = _allocatingAgents.values();
+        amounts = new uint256[](agents.length);
+        for (uint256 i = 0; i < agents.length; i++) {
+            amounts[i] = agentAllocated[agents[i]];
+        }
     }
 
     /** 
@@ -487,7 +1371,18 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
      * @return User's share in underlying assets
      */
     function getUserShareBalance(address user) external view returns (uint256) {
-        return shareToUser[user];
+        return balanceOf(user);
+    }
+
+    /**
+     * @notice Get user's shares
+     * @dev Kept for compatibility with the former shareToUser mapping; share ownership is the
+     * ERC20 balance, so transferred shares can be redeemed by whoever holds them
+     * @param user User address
+     * @return User's share balance
+     */
+    function shareToUser(address user) external view returns (uint256) {
+        return balanceOf(user);
     }
 
     /**
@@ -512,23 +1407,24 @@ contract HyperFillVault is ERC4626, Ownable, ReentrancyGuard, Pausable {
      * @return Amount of management fees that would be calculated now
      */
     function previewManagementFees() external view returns (uint256) {
-        uint256 timeElapsed = block.timestamp - lastFeeCalculation;
-        
-        if (timeElapsed == 0 || _grossTotalAssets() == 0) {
-            return accumulatedManagementFees;
-        }
-        
-        uint256 annualFeeAmount = (_grossTotalAssets() * managementFeeBps) / 10000;
-        uint256 feeForPeriod = (annualFeeAmount * timeElapsed) / 365 days;
-        
-        return accumulatedManagementFees + feeForPeriod;
+        return accumulatedManagementFees + _pendingManagementFees();
+    }
+
+    /**
+     * @notice Preview the performance fee owed at the current share price without updating state
+     * @return Amount of performance fees that would be crystallized now
+     */
+    function previewPerformanceFee() external view returns (uint256) {
+        uint256 supply = totalSupply();
+        if (supply == 0) return 0;
+        return _performanceFee(_realizedAssets(), supply);
     }
 
     /**
      * @notice Get total accumulated fees
-     * @return Total management and withdrawal fees accumulated
+     * @return Total management, withdrawal and performance fees accumulated
      */
     function getTotalAccumulatedFees() external view returns (uint256) {
-        return accumulatedManagementFees + accumulatedWithdrawalFees;
+        return accumulatedManagementFees + accumulatedWithdrawalFees + accumulatedPerformanceFees;
     }
 }
\ No newline at end of file
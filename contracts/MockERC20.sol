@@ -13,9 +13,10 @@ contract MockERC20 is ERC20 {
     constructor(
         string memory name,
         string memory symbol,
-        uint256 totalSupply
+        uint256 totalSupply,
+        uint8 decimals_
     ) ERC20(name, symbol) {
-        _decimals = 18;
+        _decimals = decimals_;
         _mint(msg.sender, totalSupply);
     }
 
@@ -2,35 +2,83 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/access/extensions/AccessControlEnumerable.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 
-contract TradeSettlement is ReentrancyGuard, Ownable {
+contract TradeSettlement is ReentrancyGuard, AccessControlEnumerable, EIP712 {
     using ECDSA for bytes32;
-    using MessageHashUtils for bytes32; // for .toEthSignedMessageHash()
 
-    struct Trade {
-        address party1;
-        address party2;
+    /// @notice Accounts allowed to submit matched trades for settlement
+    bytes32 public constant SETTLEMENT_OPERATOR_ROLE = keccak256("SETTLEMENT_OPERATOR_ROLE");
+    /// @notice Sets trading fee rates and the fee recipient
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+
+    /// @notice EIP-712 type of a signed order
+    bytes32 public constant ORDER_TYPEHASH =
+        keccak256(
+            "Order(address maker,uint256 orderId,address baseAsset,address quoteAsset,uint256 price,uint256 quantity,uint8 side,uint256 timestamp,uint256 nonce,uint256 expiry)"
+        );
+
+    enum Side {
+        Bid, // buys base, pays quote
+        Ask  // sells base, receives quote
+    }
+
+    /// @notice Order as signed by its maker with EIP-712 typed data
+    struct Order {
+        address maker;
+        uint256 orderId;
         address baseAsset;
         address quoteAsset;
-        uint256 price;
-        uint256 quantity;
-        string side1; // "bid" or "ask"
-        string side2; // "bid" or "ask"
+        uint256 price;    // limit price in whole quote tokens per whole base token (18 decimals):
+                          // bids fill at or below it, asks at or above it
+        uint256 quantity; // maximum quantity, may be filled across several trades
+        Side side;
         uint256 timestamp;
+        uint256 nonce;   // invalid once below the maker's nonce for the base asset
+        uint256 expiry;  // last timestamp at which the order can be settled
+    }
+
+    /// @notice One matched pair of signed orders, as submitted to settleTrades
+    struct Match {
+        TradeExecution tradeData;
+        Order order1;
         bytes signature1;
+        Order order2;
         bytes signature2;
     }
 
+    /// @notice One signed order's share of a ring, filled at its own quantity and price
+    struct RingFill {
+        Order order;
+        bytes signature;
+        uint256 quantity; // base quantity filled
+        uint256 price;    // fill price, quote per base (18 decimals)
+    }
+
+    /// @notice Market listed in the pair registry; settlement only runs on enabled pairs
+    struct Pair {
+        address baseAsset;
+        address quoteAsset;
+        bool enabled;
+        uint256 tickSize;    // fill prices must be a multiple of this
+        uint256 lotSize;     // fill quantities must be a multiple of this
+        uint256 minNotional; // smallest quote amount per fill, in quote token units
+        uint8 baseDecimals;  // snapshot of the tokens' decimals() at listing
+        uint8 quoteDecimals;
+    }
+
+    /// @notice Matched trade; each party's side comes from its signed order
     struct TradeExecution {
         uint256 orderId;
         address account;
         uint256 price;
         uint256 quantity;
-        string side;
         address baseAsset;
         address quoteAsset;
         string tradeId;
@@ -38,8 +86,31 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
         bool isValid;
     }
 
+    /// @notice Minimum valid order nonce per maker and base asset; orders below it are invalidated
     mapping(address => mapping(address => uint256)) public nonces;
     mapping(bytes32 => bool) public executedTrades;
+    /// @notice Base quantity settled so far against each signed order
+    mapping(bytes32 => uint256) public filledQuantity;
+    /// @notice Order hashes cancelled by their maker (maker => orderHash => cancelled)
+    mapping(address => mapping(bytes32 => bool)) public cancelledOrders;
+
+    /// @notice Fee on the asset received by the maker (basis points, 10000 = 100%)
+    uint256 public makerFeeBps;
+    /// @notice Fee on the asset received by the taker, tradeData.account (basis points)
+    uint256 public takerFeeBps;
+    /// @notice Highest maker or taker fee the fee manager can set, chosen by the admin
+    uint256 public maxFeeBps = 100; // 1%
+    /// @notice Fee recipient address
+    address public feeRecipient;
+    /// @notice Trading fees collected per token and not yet withdrawn
+    mapping(address => uint256) public accumulatedFees;
+
+    /// @notice Tokens the admin allows in pairs; delisting a token halts all its pairs
+    mapping(address => bool) public allowedTokens;
+    /// @notice Listed pairs by pairId(baseAsset, quoteAsset)
+    mapping(bytes32 => Pair) public pairs;
+    /// @notice Ids of every listed pair, in listing order
+    bytes32[] public pairIds;
 
     event TradeSettled(
         address indexed party1,
@@ -48,9 +119,39 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
         address quoteAsset,
         uint256 price,
         uint256 quantity,
+        uint256 baseFee,  // charged to the party receiving base
+        uint256 quoteFee, // charged to the party receiving quote
         uint256 timestamp
     );
 
+    event TradeFailed(uint256 indexed index, bytes reason);
+
+    event RingSettled(uint256 fills, uint256 participants, uint256 transfers);
+
+    event OrderFilled(
+        bytes32 indexed orderHash,
+        address indexed maker,
+        uint256 fillQuantity,
+        uint256 filledQuantity,
+        uint256 fillPrice,
+        uint256 priceImprovement // per unit of base, versus the order's limit price
+    );
+
+    event OrderCancelled(address indexed maker, bytes32 indexed orderHash);
+
+    event NoncesInvalidated(address indexed maker, address indexed baseAsset, uint256 minNonce);
+
+    event MakerFeeSet(uint256 newFeeBps, uint256 oldFeeBps);
+    event TakerFeeSet(uint256 newFeeBps, uint256 oldFeeBps);
+    event MaxFeeSet(uint256 newMaxFeeBps, uint256 oldMaxFeeBps);
+    event FeeRecipientSet(address indexed newRecipient, address indexed oldRecipient);
+    event FeesWithdrawn(address indexed token, address indexed recipient, uint256 amount);
+
+    event TokenAllowed(address indexed token, bool allowed);
+    event PairListed(bytes32 indexed pairId, address indexed baseAsset, address indexed quoteAsset);
+    event PairUpdated(bytes32 indexed pairId, uint256 tickSize, uint256 lotSize, uint256 minNotional);
+    event PairEnabled(bytes32 indexed pairId, bool enabled);
+
     event AllowanceChecked(
         address indexed user,
         address indexed token,
@@ -59,7 +160,11 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
         bool sufficient
     );
 
-    constructor() Ownable(msg.sender) {}
+    constructor() EIP712("HyperFill TradeSettlement", "1") {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(SETTLEMENT_OPERATOR_ROLE, msg.sender);
+        _grantRole(FEE_MANAGER_ROLE, msg.sender);
+    }
 
     /**
      * @dev Check if user has sufficient allowance for a token
@@ -90,37 +195,183 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
     }
 
     /**
-     * @dev Verify trade signature
+     * @dev EIP-712 domain separator, bound to this chain and this deployment
+     */
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /**
+     * @dev EIP-712 digest of an order, as signed by its maker
+     */
+    function hashOrder(Order memory order) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        ORDER_TYPEHASH,
+                        order.maker,
+                        order.orderId,
+                        order.baseAsset,
+                        order.quoteAsset,
+                        order.price,
+                        order.quantity,
+                        order.side,
+                        order.timestamp,
+                        order.nonce,
+                        order.expiry
+                    )
+                )
+            );
+    }
+
+    /**
+     * @dev Verify that an order was signed by its maker
      */
     function verifyTradeSignature(
-        address signer,
-        uint256 orderId,
+        Order memory order,
+        bytes memory signature
+    ) public view returns (bool) {
+        return _isValidSignature(order.maker, hashOrder(order), signature);
+    }
+
+    /**
+     * @dev Cancel one of the caller's signed orders
+     */
+    function cancelOrder(bytes32 orderHash) external {
+        require(!cancelledOrders[msg.sender][orderHash], "Order already cancelled");
+        cancelledOrders[msg.sender][orderHash] = true;
+        emit OrderCancelled(msg.sender, orderHash);
+    }
+
+    /**
+     * @dev Invalidate every order of the caller on a base asset with the current nonce
+     */
+    function incrementNonce(address baseAsset) external {
+        _invalidateNonces(baseAsset, nonces[msg.sender][baseAsset] + 1);
+    }
+
+    /**
+     * @dev Invalidate every order of the caller on a base asset with a nonce below minNonce
+     */
+    function invalidateNonces(address baseAsset, uint256 minNonce) external {
+        require(minNonce > nonces[msg.sender][baseAsset], "Nonce must increase");
+        _invalidateNonces(baseAsset, minNonce);
+    }
+
+    /**
+     * @dev Allow or delist a token; only allowed tokens can be listed or settled
+     */
+    function setTokenAllowed(address token, bool allowed) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(token != address(0), "Invalid token");
+        allowedTokens[token] = allowed;
+        emit TokenAllowed(token, allowed);
+    }
+
+    /**
+     * @dev List and enable a pair of allowed tokens, snapshotting their decimals
+     */
+    function listPair(
         address baseAsset,
         address quoteAsset,
-        uint256 price,
-        uint256 quantity,
-        string memory side,
-        uint256 timestamp,
-        uint256 nonce,
-        bytes memory signature
-    ) public pure returns (bool) {
-        bytes32 messageHash = keccak256(
-            abi.encodePacked(
-                orderId,
-                baseAsset,
-                quoteAsset,
-                price,
-                quantity,
-                side,
-                timestamp,
-                nonce
-            )
+        uint256 tickSize,
+        uint256 lotSize,
+        uint256 minNotional
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(allowedTokens[baseAsset] && allowedTokens[quoteAsset], "Token not allowed");
+        require(baseAsset != quoteAsset, "Identical pair assets");
+        bytes32 id = pairId(baseAsset, quoteAsset);
+        require(pairs[id].baseAsset == address(0), "Pair already listed");
+
+        Pair storage pair = pairs[id];
+        pair.baseAsset = baseAsset;
+        pair.quoteAsset = quoteAsset;
+        pair.baseDecimals = IERC20Metadata(baseAsset).decimals();
+        pair.quoteDecimals = IERC20Metadata(quoteAsset).decimals();
+        pairIds.push(id);
+        emit PairListed(id, baseAsset, quoteAsset);
+
+        _updatePair(id, tickSize, lotSize, minNotional);
+        _setPairEnabled(id, true);
+    }
+
+    /**
+     * @dev Change a listed pair's tick size, lot size and minimum notional
+     */
+    function updatePair(
+        address baseAsset,
+        address quoteAsset,
+        uint256 tickSize,
+        uint256 lotSize,
+        uint256 minNotional
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _updatePair(_listedPairId(baseAsset, quoteAsset), tickSize, lotSize, minNotional);
+    }
+
+    /**
+     * @dev Enable or disable settlement on a listed pair
+     */
+    function setPairEnabled(address baseAsset, address quoteAsset, bool enabled) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setPairEnabled(_listedPairId(baseAsset, quoteAsset), enabled);
+    }
+
+    /**
+     * @dev Set the maker fee rate, at most maxFeeBps
+     */
+    function setMakerFee(uint256 newFeeBps) external onlyRole(FEE_MANAGER_ROLE) {
+        require(newFeeBps <= maxFeeBps, "Fee above maximum");
+        uint256 oldFeeBps = makerFeeBps;
+        makerFeeBps = newFeeBps;
+        emit MakerFeeSet(newFeeBps, oldFeeBps);
+    }
+
+    /**
+     * @dev Set the taker fee rate, at most maxFeeBps
+     */
+    function setTakerFee(uint256 newFeeBps) external onlyRole(FEE_MANAGER_ROLE) {
+        require(newFeeBps <= maxFeeBps, "Fee above maximum");
+        uint256 oldFeeBps = takerFeeBps;
+        takerFeeBps = newFeeBps;
+        emit TakerFeeSet(newFeeBps, oldFeeBps);
+    }
+
+    /**
+     * @dev Set the cap on maker and taker fees; it cannot drop below the current rates
+     */
+    function setMaxFee(uint256 newMaxFeeBps) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newMaxFeeBps <= 10000, "Max fee too high");
+        require(newMaxFeeBps >= makerFeeBps && newMaxFeeBps >= takerFeeBps, "Max fee below current fees");
+        uint256 oldMaxFeeBps = maxFeeBps;
+        maxFeeBps = newMaxFeeBps;
+        emit MaxFeeSet(newMaxFeeBps, oldMaxFeeBps);
+    }
+
+    /**
+     * @dev Set the address that receives withdrawn trading fees
+     */
+    function setFeeRecipient(address newRecipient) external onlyRole(FEE_MANAGER_ROLE) {
+        require(newRecipient != address(0), "Invalid fee recipient");
+        address oldRecipient = feeRecipient;
+        feeRecipient = newRecipient;
+        emit FeeRecipientSet(newRecipient, oldRecipient);
+    }
+
+    /**
+     * @dev Send the fees collected in a token to the fee recipient
+     */
+    function withdrawFees(address token) external nonReentrant {
+        require(
+            msg.sender == feeRecipient || hasRole(FEE_MANAGER_ROLE, msg.sender),
+            "Not authorized to withdraw fees"
         );
+        require(feeRecipient != address(0), "No fee recipient set");
 
-        bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
-        address recovered = ethSignedMessageHash.recover(signature);
+        uint256 amount = accumulatedFees[token];
+        require(amount > 0, "No fees to withdraw");
+        accumulatedFees[token] = 0;
 
-        return recovered == signer;
+        require(IERC20(token).transfer(feeRecipient, amount), "Fee transfer failed");
+        emit FeesWithdrawn(token, feeRecipient, amount);
     }
 
     /**
@@ -128,75 +379,191 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
      */
     function settleTrade(
         TradeExecution memory tradeData,
-        address party1,
-        address party2,
-        uint256 party1Quantity,
-        uint256 party2Quantity,
-        string memory party1Side,
-        string memory party2Side,
+        Order memory order1,
         bytes memory signature1,
-        bytes memory signature2,
-        uint256 nonce1,
-        uint256 nonce2
-    ) external nonReentrant {
-        require(tradeData.isValid, "Trade is not valid");
+        Order memory order2,
+        bytes memory signature2
+    ) external nonReentrant onlyRole(SETTLEMENT_OPERATOR_ROLE) {
+        _settleTrade(tradeData, order1, signature1, order2, signature2);
+    }
+
+    /**
+     * @dev Settle many matched trades in one transaction. Signature checks are shared across
+     * the batch: a maker order filled by an earlier match is not ecrecovered again. Allowance
+     * and balance checks run per match, because earlier matches move the same balances and
+     * allowances, and skip-failed matches run in separate calls that share no memory.
+     * @param matches Matched order pairs, settled in order
+     * @param atomic True to revert the whole batch on any failure, false to skip failed
+     * matches and emit TradeFailed with their revert data
+     * @return settled Number of matches settled
+     */
+    function settleTrades(
+        Match[] calldata matches,
+        bool atomic
+    ) external nonReentrant onlyRole(SETTLEMENT_OPERATOR_ROLE) returns (uint256 settled) {
+        for (uint256 i = 0; i < matches.length; i++) {
+            if (atomic) {
+                _settleMatch(matches[i]);
+                settled++;
+            } else {
+                // The self-call lets a failed match roll back on its own
+                try this.settleMatchFromBatch(matches[i]) {
+                    settled++;
+                } catch (bytes memory reason) {
+                    emit TradeFailed(i, reason);
+                }
+            }
+        }
+    }
+
+    /**
+     * @dev Settle N signed orders across one or more pairs, such as A->B->C cycles or one
+     * taker against several makers. Each fill must respect its order's limits, and every
+     * token must net to zero across the ring; only the net amounts are transferred.
+     * Every ring fill pays the maker fee on the asset it receives.
+     */
+    function settleRing(
+        RingFill[] calldata fills
+    ) external nonReentrant onlyRole(SETTLEMENT_OPERATOR_ROLE) {
+        require(fills.length >= 2, "Ring needs at least two fills");
+
+        uint256 maxTokens = fills.length * 2;
+        address[] memory participants = new address[](fills.length);
+        address[] memory tokens = new address[](maxTokens);
+        // Net delta per participant and token, flattened as [participant * maxTokens + token]
+        int256[] memory deltas = new int256[](fills.length * maxTokens);
+        uint256[] memory fees = new uint256[](maxTokens);
+        uint256 participantCount;
+        uint256 tokenCount;
+
+        for (uint256 i = 0; i < fills.length; i++) {
+            Order memory order = fills[i].order;
+            uint256 quantity = fills[i].quantity;
+            uint256 price = fills[i].price;
+
+            bytes32 orderHash = hashOrder(order);
+            require(_isSignedOrder(order.maker, orderHash, fills[i].signature), "Invalid ring signature");
+            _validateOrder(order, orderHash, price);
+            _fillOrder(order, orderHash, quantity, price);
+
+            // Every fill rounds down so the ring nets exactly
+            uint256 quoteAmount = _quoteAmount(order.baseAsset, order.quoteAsset, quantity, price, Math.Rounding.Floor);
+
+            uint256 p;
+            uint256 b;
+            uint256 q;
+            (p, participantCount) = _indexOf(participants, participantCount, order.maker);
+            (b, tokenCount) = _indexOf(tokens, tokenCount, order.baseAsset);
+            (q, tokenCount) = _indexOf(tokens, tokenCount, order.quoteAsset);
+
+            // Bids receive base and pay quote; asks the reverse, less the fee on what they receive
+            if (order.side == Side.Bid) {
+                uint256 fee = _fee(quantity, makerFeeBps);
+                fees[b] += fee;
+                deltas[p * maxTokens + b] += int256(quantity - fee);
+                deltas[p * maxTokens + q] -= int256(quoteAmount);
+            } else {
+                uint256 fee = _fee(quoteAmount, makerFeeBps);
+                fees[q] += fee;
+                deltas[p * maxTokens + b] -= int256(quantity);
+                deltas[p * maxTokens + q] += int256(quoteAmount - fee);
+            }
+        }
+
+        // Nothing may be created or left behind apart from the fees
+        for (uint256 t = 0; t < tokenCount; t++) {
+            accumulatedFees[tokens[t]] += fees[t];
+            int256 net = int256(fees[t]);
+            for (uint256 p = 0; p < participantCount; p++) {
+                net += deltas[p * maxTokens + t];
+            }
+            require(net == 0, "Ring does not net to zero");
+        }
+
+        // Pull every net payer first, then pay every net receiver
+        uint256 transfers;
+        for (uint256 t = 0; t < tokenCount; t++) {
+            for (uint256 p = 0; p < participantCount; p++) {
+                int256 delta = deltas[p * maxTokens + t];
+                if (delta < 0) {
+                    require(
+                        IERC20(tokens[t]).transferFrom(participants[p], address(this), uint256(-delta)),
+                        "Ring transfer failed"
+                    );
+                    transfers++;
+                }
+            }
+        }
+        for (uint256 t = 0; t < tokenCount; t++) {
+            for (uint256 p = 0; p < participantCount; p++) {
+                int256 delta = deltas[p * maxTokens + t];
+                if (delta > 0) {
+                    require(IERC20(tokens[t]).transfer(participants[p], uint256(delta)), "Ring transfer failed");
+                    transfers++;
+                }
+            }
+        }
+
+        emit RingSettled(fills.length, participantCount, transfers);
+    }
+
+    /**
+     * @dev Settle one match of a skip-failed batch; only callable by settleTrades
+     */
+    function settleMatchFromBatch(Match calldata matchData) external {
+        require(msg.sender == address(this), "Only callable by settleTrades");
+        _settleMatch(matchData);
+    }
 
-        // Create unique trade hash to prevent replay
-        bytes32 tradeHash = keccak256(
-            abi.encodePacked(
-                party1,
-                party2,
-                tradeData.baseAsset,
-                tradeData.quoteAsset,
-                tradeData.price,
-                tradeData.quantity,
-                tradeData.timestamp
-            )
+    function _settleMatch(Match calldata matchData) internal {
+        _settleTrade(
+            matchData.tradeData,
+            matchData.order1,
+            matchData.signature1,
+            matchData.order2,
+            matchData.signature2
         );
+    }
+
+    function _settleTrade(
+        TradeExecution memory tradeData,
+        Order memory order1,
+        bytes memory signature1,
+        Order memory order2,
+        bytes memory signature2
+    ) internal {
+        require(tradeData.isValid, "Trade is not valid");
+
+        address party1 = order1.maker;
+        address party2 = order2.maker;
+
+        bytes32 orderHash1 = hashOrder(order1);
+        bytes32 orderHash2 = hashOrder(order2);
+
+        // Create unique trade hash to prevent replay; the same orders can match again under a new tradeId
+        bytes32 tradeHash = keccak256(abi.encode(orderHash1, orderHash2, tradeData.tradeId));
 
         require(!executedTrades[tradeHash], "Trade already executed");
         executedTrades[tradeHash] = true;
 
         // Verify signatures
-        require(
-            verifyTradeSignature(
-                party1,
-                tradeData.orderId,
-                tradeData.baseAsset,
-                tradeData.quoteAsset,
-                tradeData.price,
-                party1Quantity,
-                party1Side,
-                tradeData.timestamp,
-                nonce1,
-                signature1
-            ),
-            "Invalid party1 signature"
-        );
+        require(_isSignedOrder(party1, orderHash1, signature1), "Invalid party1 signature");
+        require(_isSignedOrder(party2, orderHash2, signature2), "Invalid party2 signature");
+
+        require(order1.side != order2.side, "Orders must be on opposite sides");
+        require(tradeData.account == party1 || tradeData.account == party2, "Taker must be a party");
 
+        // Verify both orders are still live and match the trade
         require(
-            verifyTradeSignature(
-                party2,
-                tradeData.orderId,
-                tradeData.baseAsset,
-                tradeData.quoteAsset,
-                tradeData.price,
-                party2Quantity,
-                party2Side,
-                tradeData.timestamp,
-                nonce2,
-                signature2
-            ),
-            "Invalid party2 signature"
+            _isPair(order1, tradeData) && _isPair(order2, tradeData),
+            "Order asset mismatch"
         );
+        _validateOrder(order1, orderHash1, tradeData.price);
+        _validateOrder(order2, orderHash2, tradeData.price);
 
-        // Update nonces
-        nonces[party1][tradeData.baseAsset] = nonce1 + 1;
-        nonces[party2][tradeData.baseAsset] = nonce2 + 1;
-
-        // Calculate amounts
-        uint256 baseAmount = tradeData.quantity;
-        uint256 quoteAmount = (tradeData.quantity * tradeData.price) / 1e18; // Assuming 18 decimal price
+        // Fill both orders, never past their signed quantity
+        _fillOrder(order1, orderHash1, tradeData.quantity, tradeData.price);
+        _fillOrder(order2, orderHash2, tradeData.quantity, tradeData.price);
 
         // Determine who pays what based on sides
         address basePayer;
@@ -204,10 +571,7 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
         address quotePayer;
         address quoteReceiver;
 
-        if (
-            keccak256(abi.encodePacked(party1Side)) ==
-            keccak256(abi.encodePacked("bid"))
-        ) {
+        if (order1.side == Side.Bid) {
             // Party1 is bidder (buys base, pays quote)
             quotePayer = party1;
             quoteReceiver = party2;
@@ -221,7 +585,22 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
             quoteReceiver = party1;
         }
 
-        // Check allowances and balances
+        // Calculate amounts, rounding the quote in favour of the party that isn't the taker
+        uint256 baseAmount = tradeData.quantity;
+        uint256 quoteAmount = _quoteAmount(
+            tradeData.baseAsset,
+            tradeData.quoteAsset,
+            tradeData.quantity,
+            tradeData.price,
+            quotePayer == tradeData.account ? Math.Rounding.Ceil : Math.Rounding.Floor
+        );
+
+        // Each party pays its maker or taker fee on the asset it receives
+        uint256 baseFee = _fee(baseAmount, baseReceiver == tradeData.account ? takerFeeBps : makerFeeBps);
+        uint256 quoteFee = _fee(quoteAmount, quoteReceiver == tradeData.account ? takerFeeBps : makerFeeBps);
+
+        // Check allowances and balances against their current values, which earlier matches
+        // of a batch may have changed
         (bool baseAllowanceSufficient, uint256 baseAllowance) = checkAllowance(
             basePayer,
             tradeData.baseAsset,
@@ -254,15 +633,24 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
         IERC20 quoteToken = IERC20(tradeData.quoteAsset);
 
         require(
-            baseToken.transferFrom(basePayer, baseReceiver, baseAmount),
+            baseToken.transferFrom(basePayer, baseReceiver, baseAmount - baseFee),
             "Base asset transfer failed"
         );
 
         require(
-            quoteToken.transferFrom(quotePayer, quoteReceiver, quoteAmount),
+            quoteToken.transferFrom(quotePayer, quoteReceiver, quoteAmount - quoteFee),
             "Quote asset transfer failed"
         );
 
+        if (baseFee > 0) {
+            accumulatedFees[tradeData.baseAsset] += baseFee;
+            require(baseToken.transferFrom(basePayer, address(this), baseFee), "Base asset transfer failed");
+        }
+        if (quoteFee > 0) {
+            accumulatedFees[tradeData.quoteAsset] += quoteFee;
+            require(quoteToken.transferFrom(quotePayer, address(this), quoteFee), "Quote asset transfer failed");
+        }
+
         emit TradeSettled(
             party1,
             party2,
@@ -270,6 +658,8 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
             tradeData.quoteAsset,
             tradeData.price,
             tradeData.quantity,
+            baseFee,
+            quoteFee,
             block.timestamp
         );
     }
@@ -306,7 +696,53 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
     }
 
     /**
-     * @dev Get user nonce for a specific token
+     * @dev Quantity of an order that can still be settled (0 once expired, cancelled or invalidated)
+     */
+    function getRemainingQuantity(Order memory order) external view returns (uint256) {
+        bytes32 orderHash = hashOrder(order);
+        if (
+            block.timestamp > order.expiry ||
+            order.nonce < nonces[order.maker][order.baseAsset] ||
+            cancelledOrders[order.maker][orderHash]
+        ) {
+            return 0;
+        }
+        return order.quantity - filledQuantity[orderHash];
+    }
+
+    /**
+     * @dev Registry key of a base/quote pair
+     */
+    function pairId(address baseAsset, address quoteAsset) public pure returns (bytes32) {
+        return keccak256(abi.encode(baseAsset, quoteAsset));
+    }
+
+    /**
+     * @dev Get a pair's market metadata (baseAsset is zero if it was never listed)
+     */
+    function getPair(address baseAsset, address quoteAsset) external view returns (Pair memory) {
+        return pairs[pairId(baseAsset, quoteAsset)];
+    }
+
+    /**
+     * @dev Number of listed pairs
+     */
+    function getPairCount() external view returns (uint256) {
+        return pairIds.length;
+    }
+
+    /**
+     * @dev Get every listed pair, enabled or not
+     */
+    function getPairs() external view returns (Pair[] memory result) {
+        result = new Pair[](pairIds.length);
+        for (uint256 i = 0; i < pairIds.length; i++) {
+            result[i] = pairs[pairIds[i]];
+        }
+    }
+
+    /**
+     * @dev Get a user's minimum valid order nonce for a base asset
      */
     function getUserNonce(
         address user,
@@ -315,14 +751,154 @@ contract TradeSettlement is ReentrancyGuard, Ownable {
         return nonces[user][token];
     }
 
+    function _isPair(Order memory order, TradeExecution memory tradeData) internal pure returns (bool) {
+        return order.baseAsset == tradeData.baseAsset && order.quoteAsset == tradeData.quoteAsset;
+    }
+
+    /**
+     * @dev Check a settled order against its fill price and its maker's cancellations
+     */
+    function _validateOrder(
+        Order memory order,
+        bytes32 orderHash,
+        uint256 price
+    ) internal view {
+        require(
+            order.side == Side.Bid ? price <= order.price : price >= order.price,
+            "Price outside order limit"
+        );
+        require(block.timestamp <= order.expiry, "Order expired");
+        require(order.nonce >= nonces[order.maker][order.baseAsset], "Order nonce invalidated");
+        require(!cancelledOrders[order.maker][orderHash], "Order cancelled");
+    }
+
+    function _fillOrder(
+        Order memory order,
+        bytes32 orderHash,
+        uint256 quantity,
+        uint256 price
+    ) internal {
+        uint256 filled = filledQuantity[orderHash] + quantity;
+        require(filled <= order.quantity, "Order overfilled");
+        filledQuantity[orderHash] = filled;
+
+        // _validateOrder guarantees the fill price is on the right side of the limit
+        uint256 priceImprovement = order.side == Side.Bid ? order.price - price : price - order.price;
+        emit OrderFilled(orderHash, order.maker, quantity, filled, price, priceImprovement);
+    }
+
+    /**
+     * @dev Quote amount for a base quantity at a whole-token price on an enabled pair,
+     * scaled by the pair's decimals snapshot and checked against its tick, lot and minimum notional
+     */
+    function _quoteAmount(
+        address baseAsset,
+        address quoteAsset,
+        uint256 quantity,
+        uint256 price,
+        Math.Rounding rounding
+    ) internal view returns (uint256 quoteAmount) {
+        Pair storage pair = pairs[pairId(baseAsset, quoteAsset)];
+        require(pair.enabled, "Pair not enabled");
+        require(allowedTokens[baseAsset] && allowedTokens[quoteAsset], "Token not allowed");
+        require(price % pair.tickSize == 0, "Price not a multiple of tick size");
+        require(quantity % pair.lotSize == 0, "Quantity not a multiple of lot size");
+
+        quoteAmount = Math.mulDiv(
+            quantity,
+            price * 10 ** pair.quoteDecimals,
+            1e18 * 10 ** pair.baseDecimals,
+            rounding
+        );
+        require(quoteAmount > 0, "Quote amount rounds to zero");
+        require(quoteAmount >= pair.minNotional, "Below minimum notional");
+    }
+
+    function _listedPairId(address baseAsset, address quoteAsset) internal view returns (bytes32 id) {
+        id = pairId(baseAsset, quoteAsset);
+        require(pairs[id].baseAsset != address(0), "Pair not listed");
+    }
+
+    function _updatePair(bytes32 id, uint256 tickSize, uint256 lotSize, uint256 minNotional) internal {
+        require(tickSize > 0 && lotSize > 0, "Invalid tick or lot size");
+        Pair storage pair = pairs[id];
+        pair.tickSize = tickSize;
+        pair.lotSize = lotSize;
+        pair.minNotional = minNotional;
+        emit PairUpdated(id, tickSize, lotSize, minNotional);
+    }
+
+    function _setPairEnabled(bytes32 id, bool enabled) internal {
+        pairs[id].enabled = enabled;
+        emit PairEnabled(id, enabled);
+    }
+
+    function _fee(uint256 amount, uint256 feeBps) internal pure returns (uint256) {
+        return (amount * feeBps) / 10000;
+    }
+
+    /**
+     * @dev An order that already has fills had its signature verified by an earlier
+     * settlement, so maker quotes filled many times only pay for ecrecover once.
+     * Contract makers are asked again on every fill so they can revoke their signers.
+     */
+    function _isSignedOrder(
+        address signer,
+        bytes32 orderHash,
+        bytes memory signature
+    ) internal view returns (bool) {
+        return (filledQuantity[orderHash] > 0 && signer.code.length == 0) ||
+            _isValidSignature(signer, orderHash, signature);
+    }
+
+    function _isValidSignature(
+        address signer,
+        bytes32 orderHash,
+        bytes memory signature
+    ) internal view returns (bool) {
+        if (signer.code.length == 0) {
+            (address recovered, ECDSA.RecoverError error, ) = orderHash.tryRecover(signature);
+            return error == ECDSA.RecoverError.NoError && recovered == signer;
+        }
+
+        // Contract makers such as HyperFillSubAccount validate through ERC-1271
+        (bool success, bytes memory result) = signer.staticcall(
+            abi.encodeCall(IERC1271.isValidSignature, (orderHash, signature))
+        );
+        return
+            success &&
+            result.length >= 32 &&
+            abi.decode(result, (bytes32)) == bytes32(IERC1271.isValidSignature.selector);
+    }
+
+    /**
+     * @dev Position of item in the first `length` entries of list, appending it if missing
+     */
+    function _indexOf(
+        address[] memory list,
+        uint256 length,
+        address item
+    ) internal pure returns (uint256 index, uint256 newLength) {
+        for (uint256 i = 0; i < length; i++) {
+            if (list[i] == item) return (i, length);
+        }
+        list[length] = item;
+        return (length, length + 1);
+    }
+
+    function _invalidateNonces(address baseAsset, uint256 minNonce) internal {
+        nonces[msg.sender][baseAsset] = minNonce;
+        emit NoncesInvalidated(msg.sender, baseAsset, minNonce);
+    }
+
     /**
-     * @dev Emergency function to recover stuck tokens (only owner)
+     * @dev Emergency function to recover stuck tokens (only admin)
      */
     // function emergencyRecoverToken(
     //     address token,
     //     address to,
     //     uint256 amount
-    // ) external onlyOwner {
+    // ) external onlyRole(DEFAULT_ADMIN_ROLE) {
     //     IERC20(token).transfer(to, amount);
     // }
 }
@@ -3,18 +3,37 @@ import "@typechain/hardhat";               // <--- MUST be first (runs augmentat
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomiclabs/hardhat-waffle";
 import dotenv from "dotenv";
+import "./tasks/vault";
+import "./tasks/settlement";
 
 dotenv.config();
 
 const config: HardhatUserConfig = {
   solidity: {
-    version: "0.8.28",
-    settings: {
-      optimizer: {
-        enabled: true,
-        runs: 200,
+    compilers: [
+      {
+        version: "0.8.28",
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+          viaIR: true,
+        },
+      },
+    ],
+    overrides: {
+      // Optimize the vault for size so it stays under the 24KB contract size limit
+      "contracts/HyperFillVault.sol": {
+        version: "0.8.28",
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 1,
+          },
+          viaIR: true,
+        },
       },
-      viaIR: true,
     },
   },
   networks: {
@@ -1,23 +1,39 @@
-import { ethers } from "hardhat";
+// scripts/deploy.ts
+//
+// Deploys and configures HyperFillVault and TradeSettlement (plus mock tokens on local
+// networks) from the network's entry in deploy.config.json, and records the addresses in
+// deployments/<network>.json. Safe to re-run: matching deployments are reused and only
+// settings that differ from the config are sent.
+import hre from "hardhat";
 import "dotenv/config";
-
+import deployConfig from "../deploy.config.json";
+import { deployAll, NetworkConfig, registryPath } from "./deployments";
 
 async function main() {
-  const [deployer] = await ethers.getSigners();
-  console.log("Deploying contracts with the account:", deployer.address);
+  const network = hre.network.name;
+  const config = (deployConfig as Record<string, NetworkConfig>)[network];
+  if (!config) {
+    throw new Error(`No deploy.config.json entry for network ${network}`);
+  }
+
+  const [deployer] = await hre.ethers.getSigners();
+  console.log(`🚀 Deploying to ${network}`);
+  console.log("👤 Deploying with account:", deployer.address);
+  console.log("💰 Account balance:", hre.ethers.utils.formatEther(await deployer.getBalance()), "SEI");
 
-  const VaultFactory = await ethers.getContractFactory("HyperFillVault");
-  if (!process.env.ASSET_ADDRESS) {
-    throw new Error("ASSET_ADDRESS env var is required");
+  const { registry, deployed, reused, changes } = await deployAll(hre, config);
+
+  console.log("\n📊 DEPLOYMENT SUMMARY:");
+  console.log("=".repeat(50));
+  for (const [name, record] of Object.entries(registry.contracts)) {
+    console.log(`${name.padEnd(16)} ${record.address}`);
   }
-  const vault = await VaultFactory.deploy(process.env.ASSET_ADDRESS!);
-  await vault.deployed();
-console.log(`Vault deployed at: ${vault.address}`);
+  console.log("=".repeat(50));
+  console.log(`✅ ${deployed.length} deployed, ♻️  ${reused.length} reused, 🔧 ${changes.length} settings changed`);
+  console.log("📝 Registry written to", registryPath(network));
 }
 
 main().catch((error) => {
-  console.error(error);
+  console.error("❌ Deployment failed:", error);
   process.exitCode = 1;
 });
-
-
@@ -0,0 +1,333 @@
+// scripts/deployments.ts
+//
+// Deployment pipeline and per-network address registry. `deployAll` deploys the mock tokens
+// (local networks only), HyperFillVault and TradeSettlement described by deploy.config.json,
+// applies their settings and records everything in deployments/<network>.json. Re-running
+// it reuses every contract whose on-chain code still matches its artifact and only sends
+// transactions for settings that differ from the config.
+//
+// Takes the runtime environment as a parameter instead of importing "hardhat", so the
+// hardhat tasks loaded by hardhat.config.ts can use the registry too.
+import fs from "fs";
+import path from "path";
+import { BigNumber, BigNumberish, Contract, ContractTransaction } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { HyperFillVault, TradeSettlement } from "../typechain-types";
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+export const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+// ===== CONFIG =====
+
+/** A mock token deployed on local networks; supply is in whole tokens */
+export interface MockTokenConfig {
+  name: string;
+  decimals: number;
+  supply: string;
+}
+
+export interface VaultConfig {
+  asset: string; // token symbol from `tokens` or an address
+  feeRecipient?: string;
+  agents?: { address: string; maxAllocationBps?: number }[];
+  maxAllocationBps?: number;
+  minDeposit?: string; // in asset units, e.g. "1.5"
+  managementFeeBps?: number;
+  withdrawalFeeBps?: number;
+  performanceFeeBps?: number;
+}
+
+export interface PairConfig {
+  base: string;
+  quote: string;
+  tickSize: string; // quote per base, 18 decimals
+  lotSize: string; // base units
+  minNotional: string; // quote units
+}
+
+export interface SettlementConfig {
+  feeRecipient?: string;
+  makerFeeBps?: number;
+  takerFeeBps?: number;
+  operators?: string[];
+  pairs?: PairConfig[];
+}
+
+/**
+ * One network's entry in deploy.config.json. Addresses may also be written as "deployer",
+ * a token symbol, or a contract name from the registry
+ */
+export interface NetworkConfig {
+  tokens: Record<string, string | MockTokenConfig>; // symbol => existing address, or a mock to deploy
+  vault: VaultConfig;
+  settlement: SettlementConfig;
+}
+
+// ===== REGISTRY =====
+
+export interface DeploymentRecord {
+  contractName: string;
+  address: string;
+  args: unknown[];
+  transactionHash?: string; // unset for tokens deployed outside this pipeline
+  blockNumber?: number;
+  abi: unknown[];
+}
+
+export interface DeploymentRegistry {
+  network: string;
+  chainId: number;
+  contracts: Record<string, DeploymentRecord>;
+}
+
+export function registryPath(network: string, dir = DEPLOYMENTS_DIR): string {
+  return path.join(dir, `${network}.json`);
+}
+
+export function loadRegistry(network: string, chainId: number, dir = DEPLOYMENTS_DIR): DeploymentRegistry {
+  const file = registryPath(network, dir);
+  if (!fs.existsSync(file)) return { network, chainId, contracts: {} };
+
+  const registry: DeploymentRegistry = JSON.parse(fs.readFileSync(file, "utf8"));
+  // A registry for another chain (e.g. a reset local node) says nothing about this one
+  return registry.chainId === chainId ? registry : { network, chainId, contracts: {} };
+}
+
+export function saveRegistry(registry: DeploymentRegistry, dir = DEPLOYMENTS_DIR): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(registryPath(registry.network, dir), JSON.stringify(registry, null, 2) + "\n");
+}
+
+/**
+ * Address of a contract in the current network's registry
+ */
+export function getDeployment(hre: HardhatRuntimeEnvironment, name: string, dir = DEPLOYMENTS_DIR): DeploymentRecord {
+  const file = registryPath(hre.network.name, dir);
+  const registry: DeploymentRegistry | undefined = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : undefined;
+  const record = registry?.contracts[name];
+  if (!record) {
+    throw new Error(`${name} is not deployed on ${hre.network.name}; run scripts/deploy.ts first`);
+  }
+  return record;
+}
+
+/**
+ * Whether `address` runs the current artifact's code. Immutables are written into the
+ * code at deployment, so their byte ranges are ignored
+ */
+export async function matchesArtifact(hre: HardhatRuntimeEnvironment, contractName: string, address: string): Promise<boolean> {
+  const onChain = await hre.ethers.provider.getCode(address);
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  if (onChain === "0x" || onChain.length !== artifact.deployedBytecode.length) return false;
+
+  const fullName = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await hre.artifacts.getBuildInfo(fullName);
+  const references: Record<string, { start: number; length: number }[]> =
+    buildInfo?.output.contracts[artifact.sourceName][artifact.contractName].evm.deployedBytecode.immutableReferences ?? {};
+
+  let masked = onChain.toLowerCase();
+  for (const ranges of Object.values(references)) {
+    for (const { start, length } of ranges) {
+      const from = 2 + start * 2;
+      masked = masked.slice(0, from) + "0".repeat(length * 2) + masked.slice(from + length * 2);
+    }
+  }
+  return masked === artifact.deployedBytecode.toLowerCase();
+}
+
+// ===== PIPELINE =====
+
+export interface DeployOptions {
+  dir?: string; // registry directory, deployments/ by default
+  log?: (message: string) => void;
+}
+
+export interface DeployResult {
+  registry: DeploymentRegistry;
+  deployed: string[]; // registry names deployed by this run
+  reused: string[]; // registry names whose existing deployment was kept
+  changes: string[]; // settings changed by this run
+}
+
+/**
+ * Deploy and configure a network from its config, reusing matching deployments
+ */
+export async function deployAll(hre: HardhatRuntimeEnvironment, config: NetworkConfig, options: DeployOptions = {}): Promise<DeployResult> {
+  const log = options.log ?? console.log;
+  const { ethers } = hre;
+  const [deployer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+  const registry = loadRegistry(hre.network.name, chainId, options.dir);
+  const result: DeployResult = { registry, deployed: [], reused: [], changes: [] };
+
+  async function deploy(name: string, contractName: string, args: unknown[]): Promise<Contract> {
+    const existing = registry.contracts[name];
+    if (
+      existing &&
+      existing.contractName === contractName &&
+      JSON.stringify(existing.args) === JSON.stringify(args) &&
+      (await matchesArtifact(hre, contractName, existing.address))
+    ) {
+      log(`♻️  ${name} already deployed at ${existing.address}`);
+      result.reused.push(name);
+      return ethers.getContractAt(contractName, existing.address);
+    }
+    if (existing) log(`⚠️  ${name} at ${existing.address} is missing or outdated, redeploying`);
+
+    const factory = await ethers.getContractFactory(contractName);
+    const contract = await factory.deploy(...args);
+    const receipt = await contract.deployTransaction.wait();
+    registry.contracts[name] = {
+      contractName,
+      address: contract.address,
+      args,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      abi: (await hre.artifacts.readArtifact(contractName)).abi as unknown[],
+    };
+    saveRegistry(registry, options.dir); // keep progress if a later step fails
+    log(`✅ ${name} deployed to ${contract.address}`);
+    result.deployed.push(name);
+    return contract;
+  }
+
+  // Resolves "deployer", token symbols and registry names to addresses
+  function resolve(value: string): string {
+    if (value === "deployer") return deployer.address;
+    if (ethers.utils.isAddress(value)) return ethers.utils.getAddress(value);
+    const record = registry.contracts[value];
+    if (!record) throw new Error(`Unknown address or contract name: ${value}`);
+    return record.address;
+  }
+
+  // Sends `update` only when the current value differs from the config
+  async function ensure(
+    label: string,
+    current: () => Promise<BigNumberish | string | boolean>,
+    desired: BigNumberish | string | boolean | undefined,
+    update: () => Promise<ContractTransaction>
+  ): Promise<void> {
+    if (desired === undefined) return;
+    const value = await current();
+    const same =
+      typeof value === "string" || typeof value === "boolean"
+        ? String(value).toLowerCase() === String(desired).toLowerCase()
+        : BigNumber.from(value).eq(desired as BigNumberish);
+    if (same) return;
+    await (await update()).wait();
+    log(`🔧 ${label}: ${String(value)} → ${String(desired)}`);
+    result.changes.push(label);
+  }
+
+  // ===== TOKENS =====
+
+  const decimals: Record<string, number> = {};
+  for (const [symbol, token] of Object.entries(config.tokens)) {
+    if (typeof token === "string") {
+      registry.contracts[symbol] = {
+        contractName: "IERC20Metadata",
+        address: ethers.utils.getAddress(token),
+        args: [],
+        abi: (await hre.artifacts.readArtifact("IERC20Metadata")).abi as unknown[],
+      };
+      const erc20 = await ethers.getContractAt("IERC20Metadata", token);
+      decimals[symbol] = await erc20.decimals();
+      continue;
+    }
+    if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+      throw new Error(`Mock token ${symbol} can only be deployed on a local network`);
+    }
+    const supply = ethers.utils.parseUnits(token.supply, token.decimals);
+    await deploy(symbol, "MockERC20", [token.name, symbol, supply.toString(), token.decimals]);
+    decimals[symbol] = token.decimals;
+  }
+
+  // ===== VAULT =====
+
+  const { vault: vaultConfig } = config;
+  const vault = (await deploy("HyperFillVault", "HyperFillVault", [resolve(vaultConfig.asset)])) as HyperFillVault;
+  const assetDecimals = decimals[vaultConfig.asset] ?? 18;
+
+  if (vaultConfig.feeRecipient) {
+    const recipient = resolve(vaultConfig.feeRecipient);
+    await ensure("vault feeRecipient", () => vault.feeRecipient(), recipient, () => vault.setFeeRecipient(recipient));
+  }
+  await ensure("vault managementFeeBps", () => vault.managementFeeBps(), vaultConfig.managementFeeBps, () =>
+    vault.setManagementFee(vaultConfig.managementFeeBps!)
+  );
+  await ensure("vault withdrawalFeeBps", () => vault.withdrawalFeeBps(), vaultConfig.withdrawalFeeBps, () =>
+    vault.setWithdrawalFee(vaultConfig.withdrawalFeeBps!)
+  );
+  await ensure("vault performanceFeeBps", () => vault.performanceFeeBps(), vaultConfig.performanceFeeBps, () =>
+    vault.setPerformanceFee(vaultConfig.performanceFeeBps!)
+  );
+  await ensure("vault maxAllocationBps", () => vault.maxAllocationBps(), vaultConfig.maxAllocationBps, () =>
+    vault.setMaxAllocation(vaultConfig.maxAllocationBps!)
+  );
+  if (vaultConfig.minDeposit !== undefined) {
+    const minDeposit = ethers.utils.parseUnits(vaultConfig.minDeposit, assetDecimals);
+    await ensure("vault minDeposit", () => vault.minDeposit(), minDeposit, () => vault.setMinDeposit(minDeposit));
+  }
+  for (const agentConfig of vaultConfig.agents ?? []) {
+    const agent = resolve(agentConfig.address);
+    await ensure(`vault agent ${agent}`, () => vault.authorizedAgents(agent), true, () => vault.addAuthorizedAgent(agent));
+    await ensure(`vault agent ${agent} maxAllocationBps`, () => vault.agentMaxAllocationBps(agent), agentConfig.maxAllocationBps, () =>
+      vault.setAgentMaxAllocation(agent, agentConfig.maxAllocationBps!)
+    );
+  }
+
+  // ===== SETTLEMENT =====
+
+  const { settlement: settlementConfig } = config;
+  const settlement = (await deploy("TradeSettlement", "TradeSettlement", [])) as TradeSettlement;
+
+  if (settlementConfig.feeRecipient) {
+    const recipient = resolve(settlementConfig.feeRecipient);
+    await ensure("settlement feeRecipient", () => settlement.feeRecipient(), recipient, () =>
+      settlement.setFeeRecipient(recipient)
+    );
+  }
+  await ensure("settlement makerFeeBps", () => settlement.makerFeeBps(), settlementConfig.makerFeeBps, () =>
+    settlement.setMakerFee(settlementConfig.makerFeeBps!)
+  );
+  await ensure("settlement takerFeeBps", () => settlement.takerFeeBps(), settlementConfig.takerFeeBps, () =>
+    settlement.setTakerFee(settlementConfig.takerFeeBps!)
+  );
+  const operatorRole = await settlement.SETTLEMENT_OPERATOR_ROLE();
+  for (const value of settlementConfig.operators ?? []) {
+    const operator = resolve(value);
+    await ensure(`settlement operator ${operator}`, () => settlement.hasRole(operatorRole, operator), true, () =>
+      settlement.grantRole(operatorRole, operator)
+    );
+  }
+  for (const pair of settlementConfig.pairs ?? []) {
+    const [base, quote] = [resolve(pair.base), resolve(pair.quote)];
+    const label = `settlement pair ${pair.base}/${pair.quote}`;
+    for (const token of [base, quote]) {
+      await ensure(`settlement token ${token}`, () => settlement.allowedTokens(token), true, () =>
+        settlement.setTokenAllowed(token, true)
+      );
+    }
+
+    const listed = await settlement.getPair(base, quote);
+    if (listed.baseAsset === ethers.constants.AddressZero) {
+      await (await settlement.listPair(base, quote, pair.tickSize, pair.lotSize, pair.minNotional)).wait();
+      log(`🔧 ${label} listed`);
+      result.changes.push(label);
+      continue;
+    }
+    if (
+      !listed.tickSize.eq(pair.tickSize) ||
+      !listed.lotSize.eq(pair.lotSize) ||
+      !listed.minNotional.eq(pair.minNotional)
+    ) {
+      await (await settlement.updatePair(base, quote, pair.tickSize, pair.lotSize, pair.minNotional)).wait();
+      log(`🔧 ${label} tick, lot and min notional updated`);
+      result.changes.push(label);
+    }
+    await ensure(`${label} enabled`, async () => listed.enabled, true, () => settlement.setPairEnabled(base, quote, true));
+  }
+
+  saveRegistry(registry, options.dir);
+  return result;
+}
@@ -0,0 +1,91 @@
+// scripts/migrateShareToUser.ts
+//
+// Reconciles the legacy `shareToUser` mapping of a deployed HyperFillVault with the
+// ERC20 share balances. Newer vaults derive share ownership from `balanceOf` only, so
+// this snapshot is what holders need to move out of a legacy deployment:
+//   - holders whose mapping exceeds their balance cannot use `withdrawProfits` at all
+//   - holders who received shares by transfer cannot reach them through `withdrawProfits`
+// Both groups can exit through the standard ERC4626 `redeem(shares, receiver, owner)`.
+import { ethers, network } from "hardhat";
+import fs from "fs";
+import "dotenv/config";
+
+async function main() {
+  const LEGACY_VAULT_ADDRESS = process.env.LEGACY_VAULT_ADDRESS;
+  if (!LEGACY_VAULT_ADDRESS) {
+    throw new Error("LEGACY_VAULT_ADDRESS env var is required");
+  }
+  const FROM_BLOCK = Number(process.env.FROM_BLOCK || 0);
+
+  const LEGACY_VAULT_ABI = [
+    "function shareToUser(address user) external view returns (uint256)",
+    "function balanceOf(address account) external view returns (uint256)",
+    "function previewRedeem(uint256 shares) external view returns (uint256)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+  ];
+
+  const vault = await ethers.getContractAt(LEGACY_VAULT_ABI, LEGACY_VAULT_ADDRESS);
+
+  console.log("🔎 shareToUser RECONCILIATION");
+  console.log("=".repeat(60));
+  console.log(`Network: ${network.name}`);
+  console.log(`Vault:   ${LEGACY_VAULT_ADDRESS}`);
+
+  // Every address that ever held shares shows up in a Transfer event
+  const transfers = await vault.queryFilter(vault.filters.Transfer(), FROM_BLOCK);
+  const holders = new Set<string>();
+  for (const transfer of transfers) {
+    const { from, to } = transfer.args!;
+    if (from !== ethers.constants.AddressZero) holders.add(from);
+    if (to !== ethers.constants.AddressZero) holders.add(to);
+  }
+  console.log(`Holders found: ${holders.size}`);
+
+  const entries = [];
+  let mismatches = 0;
+
+  for (const holder of holders) {
+    const mapped = await vault.shareToUser(holder);
+    const balance = await vault.balanceOf(holder);
+    if (mapped.isZero() && balance.isZero()) continue;
+
+    const inSync = mapped.eq(balance);
+    if (!inSync) mismatches++;
+
+    entries.push({
+      holder,
+      shareToUser: mapped.toString(),
+      balanceOf: balance.toString(),
+      redeemableAssets: (await vault.previewRedeem(balance)).toString(),
+      // withdrawProfits reverts when the mapping exceeds the balance
+      withdrawProfitsBlocked: mapped.gt(balance),
+      // shares received by transfer are only reachable through ERC4626 redeem
+      unreachableShares: balance.gt(mapped) ? balance.sub(mapped).toString() : "0",
+    });
+
+    if (!inSync) {
+      console.log(`\n⚠️  ${holder}`);
+      console.log(`   shareToUser: ${ethers.utils.formatEther(mapped)}`);
+      console.log(`   balanceOf:   ${ethers.utils.formatEther(balance)}`);
+    }
+  }
+
+  const outFile = `share-migration-${network.name}.json`;
+  fs.writeFileSync(
+    outFile,
+    JSON.stringify({ vault: LEGACY_VAULT_ADDRESS, network: network.name, holders: entries }, null, 2)
+  );
+
+  console.log("\n📊 Summary");
+  console.log(`   Holders with shares: ${entries.length}`);
+  console.log(`   Out of sync:         ${mismatches}`);
+  console.log(`   Snapshot written to  ${outFile}`);
+  if (mismatches > 0) {
+    console.log("\n👉 Out-of-sync holders should exit with redeem(balanceOf, receiver, owner) and re-deposit.");
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
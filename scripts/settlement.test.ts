@@ -1,29 +1,35 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
-import { BigNumber, ContractFactory } from "ethers";
+import { BigNumber, ContractFactory, TypedDataDomain } from "ethers";
 import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { MockERC20, TradeSettlement } from "../typechain-types";
+import { getOrderDomain, hashOrder, Order, Side, signOrder } from "../sdk/orderSigning";
 
 describe("TradeSettlement", function () {
     let tradeSettlement: TradeSettlement;
     let baseToken: MockERC20;
     let quoteToken: MockERC20;
     let owner: SignerWithAddress, trader1: SignerWithAddress, trader2: SignerWithAddress, other: SignerWithAddress;
+    let domain: TypedDataDomain;
 
     const INITIAL_SUPPLY = ethers.utils.parseEther("1000000");
     const TRADE_AMOUNT = ethers.utils.parseEther("100");
     const PRICE = ethers.utils.parseEther("1.5"); // 1.5 quote tokens per base token
 
+    async function latestTimestamp(): Promise<number> {
+        return (await ethers.provider.getBlock("latest")).timestamp;
+    }
+
     beforeEach(async function () {
         [owner, trader1, trader2, other] = await ethers.getSigners();
 
         // Deploy mock ERC20 tokens
         const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
-        baseToken = (await MockERC20Factory.deploy("Base Token", "BASE", INITIAL_SUPPLY)) as MockERC20;
+        baseToken = (await MockERC20Factory.deploy("Base Token", "BASE", INITIAL_SUPPLY, 18)) as MockERC20;
         await baseToken.deployed();
 
-        quoteToken = (await MockERC20Factory.deploy("Quote Token", "QUOTE", INITIAL_SUPPLY)) as MockERC20;
+        quoteToken = (await MockERC20Factory.deploy("Quote Token", "QUOTE", INITIAL_SUPPLY, 18)) as MockERC20;
         await quoteToken.deployed();
 
         // Deploy TradeSettlement contract
@@ -31,6 +37,14 @@ describe("TradeSettlement", function () {
         tradeSettlement = (await TradeSettlementFactory.deploy()) as TradeSettlement;
         await tradeSettlement.deployed();
 
+        const { chainId } = await ethers.provider.getNetwork();
+        domain = getOrderDomain(chainId, tradeSettlement.address);
+
+        // List BASE/QUOTE with no tick, lot or notional constraints
+        await tradeSettlement.setTokenAllowed(baseToken.address, true);
+        await tradeSettlement.setTokenAllowed(quoteToken.address, true);
+        await tradeSettlement.listPair(baseToken.address, quoteToken.address, 1, 1, 0);
+
         // Transfer tokens to traders
         await baseToken.transfer(trader1.address, ethers.utils.parseEther("10000"));
         await baseToken.transfer(trader2.address, ethers.utils.parseEther("10000"));
@@ -45,8 +59,9 @@ describe("TradeSettlement", function () {
     });
 
     describe("Deployment", function () {
-        it("Should set the right owner", async function () {
-            expect(await tradeSettlement.owner()).to.equal(owner.address);
+        it("Should grant the deployer the admin and settlement operator roles", async function () {
+            expect(await tradeSettlement.hasRole(await tradeSettlement.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+            expect(await tradeSettlement.hasRole(await tradeSettlement.SETTLEMENT_OPERATOR_ROLE(), owner.address)).to.be.true;
         });
     });
 
@@ -102,78 +117,61 @@ describe("TradeSettlement", function () {
     });
 
     describe("Signature Verification", function () {
-        it("Should verify trade signatures correctly", async function () {
-            const orderId = 1;
-            const quantity = TRADE_AMOUNT;
-            const side = "bid";
-            const timestamp = Math.floor(Date.now() / 1000);
-            const nonce = 0;
-
-            // Create message hash (matches contract's abi.encode usage)
-            const messageHash = ethers.utils.solidityKeccak256(
-                ["uint256", "address", "address", "uint256", "uint256", "string", "uint256", "uint256"],
-                [orderId, baseToken.address, quoteToken.address, PRICE, quantity, side, timestamp, nonce]
-            );
+        let order: Order;
 
-            // Sign the message
-            const signature = await trader1.signMessage(ethers.utils.arrayify(messageHash));
+        beforeEach(async function () {
+            order = {
+                maker: trader1.address,
+                orderId: 1,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
+                side: Side.Bid,
+                timestamp: 1700000000,
+                nonce: 0,
+                expiry: 1700003600,
+            };
+        });
 
-            const isValid: boolean = await tradeSettlement.verifyTradeSignature(
-                trader1.address,
-                orderId,
-                baseToken.address,
-                quoteToken.address,
-                PRICE,
-                quantity,
-                side,
-                timestamp,
-                nonce,
-                signature
-            );
+        it("Should verify trade signatures correctly", async function () {
+            // Sign the order as EIP-712 typed data
+            const signature = await signOrder(trader1, domain, order);
 
-            expect(isValid).to.be.true;
+            expect(await tradeSettlement.verifyTradeSignature(order, signature)).to.be.true;
         });
 
         it("Should reject invalid signatures", async function () {
-            const orderId = 1;
-            const quantity = TRADE_AMOUNT;
-            const side = "bid";
-            const timestamp = Math.floor(Date.now() / 1000);
-            const nonce = 0;
-
-            const messageHash = ethers.utils.solidityKeccak256(
-                ["uint256", "address", "address", "uint256", "uint256", "string", "uint256", "uint256"],
-                [orderId, baseToken.address, quoteToken.address, PRICE, quantity, side, timestamp, nonce]
-            );
+            // Claiming trader1 signed it, but trader2 actually signed
+            const signature = await signOrder(trader2, domain, order);
 
-            // Sign with wrong signer
-            const signature = await trader2.signMessage(ethers.utils.arrayify(messageHash));
+            expect(await tradeSettlement.verifyTradeSignature(order, signature)).to.be.false;
+        });
 
-            const isValid: boolean = await tradeSettlement.verifyTradeSignature(
-                trader1.address, // Claiming trader1 signed it
-                orderId,
-                baseToken.address,
-                quoteToken.address,
-                PRICE,
-                quantity,
-                side,
-                timestamp,
-                nonce,
-                signature // But trader2 actually signed
-            );
+        it("Should hash orders like the TypeScript helpers", async function () {
+            const askOrder: Order = { ...order, orderId: 7, side: Side.Ask, nonce: 3 };
 
-            expect(isValid).to.be.false;
+            expect(await tradeSettlement.hashOrder(askOrder)).to.equal(hashOrder(domain, askOrder));
+            expect(await tradeSettlement.DOMAIN_SEPARATOR())
+                .to.equal(ethers.utils._TypedDataEncoder.hashDomain(domain));
+        });
+
+        it("Should reject signatures made for another deployment or chain", async function () {
+            const verify = async (signature: string) => tradeSettlement.verifyTradeSignature(order, signature);
+
+            const otherDeployment = getOrderDomain(Number(domain.chainId), other.address);
+            const otherChain = getOrderDomain(1329, tradeSettlement.address);
+
+            expect(await verify(await signOrder(trader1, otherDeployment, order))).to.be.false;
+            expect(await verify(await signOrder(trader1, otherChain, order))).to.be.false;
+            expect(await verify(await signOrder(trader1, domain, order))).to.be.true;
         });
     });
 
     describe("Trade Settlement", function () {
-        let tradeData: any, signature1: string, signature2: string;
+        let tradeData: any, order1: Order, order2: Order, signature1: string, signature2: string;
         const orderId = 1;
         const timestamp = Math.floor(Date.now() / 1000);
-        const nonce1 = 0;
-        const nonce2 = 0;
-        const party1Side = "bid";
-        const party2Side = "ask";
 
         beforeEach(async function () {
             // Create trade data
@@ -182,7 +180,6 @@ describe("TradeSettlement", function () {
                 account: trader1.address,
                 price: PRICE,
                 quantity: TRADE_AMOUNT,
-                side: party1Side,
                 baseAsset: baseToken.address,
                 quoteAsset: quoteToken.address,
                 tradeId: "trade123",
@@ -190,19 +187,22 @@ describe("TradeSettlement", function () {
                 isValid: true
             };
 
-            // Create signatures
-            const messageHash1 = ethers.utils.solidityKeccak256(
-                ["uint256", "address", "address", "uint256", "uint256", "string", "uint256", "uint256"],
-                [orderId, baseToken.address, quoteToken.address, PRICE, TRADE_AMOUNT, party1Side, timestamp, nonce1]
-            );
-
-            const messageHash2 = ethers.utils.solidityKeccak256(
-                ["uint256", "address", "address", "uint256", "uint256", "string", "uint256", "uint256"],
-                [orderId, baseToken.address, quoteToken.address, PRICE, TRADE_AMOUNT, party2Side, timestamp, nonce2]
-            );
+            // Create signed orders, valid for an hour
+            const order = {
+                orderId,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
+                timestamp,
+                nonce: 0,
+                expiry: (await latestTimestamp()) + 3600,
+            };
+            order1 = { ...order, maker: trader1.address, side: Side.Bid };
+            order2 = { ...order, maker: trader2.address, side: Side.Ask };
 
-            signature1 = await trader1.signMessage(ethers.utils.arrayify(messageHash1));
-            signature2 = await trader2.signMessage(ethers.utils.arrayify(messageHash2));
+            signature1 = await signOrder(trader1, domain, order1);
+            signature2 = await signOrder(trader2, domain, order2);
         });
 
         it("Should settle a valid trade", async function () {
@@ -211,23 +211,8 @@ describe("TradeSettlement", function () {
             const trader2BaseBalanceBefore: BigNumber = await baseToken.balanceOf(trader2.address);
             const trader2QuoteBalanceBefore: BigNumber = await quoteToken.balanceOf(trader2.address);
             await expect(
-                tradeSettlement.settleTrade(
-                    tradeData,
-                    trader1.address,
-                    trader2.address,
-                    TRADE_AMOUNT,
-                    TRADE_AMOUNT,
-                    party1Side,
-                    party2Side,
-                    signature1,
-                    signature2,
-                    nonce1,
-                    nonce2
-                )
-            ).to.emit(tradeSettlement, "TradeSettled")
-
-            console.log("GOT HERE")
-
+                tradeSettlement.settleTrade(tradeData, order1, signature1, order2, signature2)
+            ).to.emit(tradeSettlement, "TradeSettled");
 
             // Check balances after trade
             const quoteAmount: BigNumber = TRADE_AMOUNT.mul(PRICE).div(ethers.utils.parseEther("1"));
@@ -243,43 +228,29 @@ describe("TradeSettlement", function () {
 
             expect(await quoteToken.balanceOf(trader2.address))
                 .to.equal(trader2QuoteBalanceBefore.add(quoteAmount));
+        });
 
-            // Check nonces were updated
-            expect(await tradeSettlement.getUserNonce(trader1.address, baseToken.address)).to.equal(1);
-            expect(await tradeSettlement.getUserNonce(trader2.address, baseToken.address)).to.equal(1);
+        it("Should only let settlement operators settle trades", async function () {
+            const operatorRole = await tradeSettlement.SETTLEMENT_OPERATOR_ROLE();
+            const settle = (signer: SignerWithAddress) =>
+                tradeSettlement.connect(signer).settleTrade(tradeData, order1, signature1, order2, signature2);
+
+            await expect(settle(other)).to.be.reverted;
+
+            await expect(tradeSettlement.grantRole(operatorRole, other.address))
+                .to.emit(tradeSettlement, "RoleGranted")
+                .withArgs(operatorRole, other.address, owner.address);
+            await expect(settle(other)).to.emit(tradeSettlement, "TradeSettled");
+            expect(await tradeSettlement.getRoleMembers(operatorRole)).to.deep.equal([owner.address, other.address]);
         });
 
         it("Should prevent replay attacks", async function () {
             // Execute trade once
-            await tradeSettlement.settleTrade(
-                tradeData,
-                trader1.address,
-                trader2.address,
-                TRADE_AMOUNT,
-                TRADE_AMOUNT,
-                party1Side,
-                party2Side,
-                signature1,
-                signature2,
-                nonce1,
-                nonce2
-            );
+            await tradeSettlement.settleTrade(tradeData, order1, signature1, order2, signature2);
 
             // Try to execute the same trade again
             await expect(
-                tradeSettlement.settleTrade(
-                    tradeData,
-                    trader1.address,
-                    trader2.address,
-                    TRADE_AMOUNT,
-                    TRADE_AMOUNT,
-                    party1Side,
-                    party2Side,
-                    signature1,
-                    signature2,
-                    nonce1,
-                    nonce2
-                )
+                tradeSettlement.settleTrade(tradeData, order1, signature1, order2, signature2)
             ).to.be.revertedWith("Trade already executed");
         });
 
@@ -287,60 +258,109 @@ describe("TradeSettlement", function () {
             const invalidTradeData = { ...tradeData, isValid: false };
 
             await expect(
-                tradeSettlement.settleTrade(
-                    invalidTradeData,
-                    trader1.address,
-                    trader2.address,
-                    TRADE_AMOUNT,
-                    TRADE_AMOUNT,
-                    party1Side,
-                    party2Side,
-                    signature1,
-                    signature2,
-                    nonce1,
-                    nonce2
-                )
+                tradeSettlement.settleTrade(invalidTradeData, order1, signature1, order2, signature2)
             ).to.be.revertedWith("Trade is not valid");
         });
 
         it("Should reject invalid signatures", async function () {
             const wrongSignature = await other.signMessage("wrong message");
 
+            await expect(
+                tradeSettlement.settleTrade(tradeData, order1, wrongSignature, order2, signature2)
+            ).to.be.revertedWith("Invalid party1 signature");
+        });
+
+        it("Should reject fills outside either order's limit price", async function () {
+            // Above the bid's limit
+            const abovePrice = { ...tradeData, price: PRICE.add(1) };
+            await expect(
+                tradeSettlement.settleTrade(abovePrice, order1, signature1, order2, signature2)
+            ).to.be.revertedWith("Price outside order limit");
+
+            // Below the ask's limit
+            const belowPrice = { ...tradeData, price: PRICE.sub(1) };
+            await expect(
+                tradeSettlement.settleTrade(belowPrice, order1, signature1, order2, signature2)
+            ).to.be.revertedWith("Price outside order limit");
+        });
+
+        it("Should fill between the limits and record the price improvement", async function () {
+            // Bid up to 1.6, ask down to 1.4, match at 1.5
+            const bid: Order = { ...order1, price: ethers.utils.parseEther("1.6") };
+            const ask: Order = { ...order2, price: ethers.utils.parseEther("1.4") };
+            const improvement = ethers.utils.parseEther("0.1");
+
             await expect(
                 tradeSettlement.settleTrade(
                     tradeData,
-                    trader1.address,
-                    trader2.address,
-                    TRADE_AMOUNT,
-                    TRADE_AMOUNT,
-                    party1Side,
-                    party2Side,
-                    wrongSignature,
-                    signature2,
-                    nonce1,
-                    nonce2
+                    bid,
+                    await signOrder(trader1, domain, bid),
+                    ask,
+                    await signOrder(trader2, domain, ask)
                 )
-            ).to.be.revertedWith("Invalid party1 signature");
+            )
+                .to.emit(tradeSettlement, "OrderFilled")
+                .withArgs(hashOrder(domain, bid), trader1.address, TRADE_AMOUNT, TRADE_AMOUNT, PRICE, improvement)
+                .and.to.emit(tradeSettlement, "OrderFilled")
+                .withArgs(hashOrder(domain, ask), trader2.address, TRADE_AMOUNT, TRADE_AMOUNT, PRICE, improvement);
+
+            // The bidder pays the fill price, not its limit
+            expect(await quoteToken.balanceOf(trader1.address))
+                .to.equal(ethers.utils.parseEther("10000").sub(ethers.utils.parseEther("150")));
         });
 
-        it("Should reject trades with insufficient allowance", async function () {
-            // Reduce allowance
-            await baseToken.connect(trader2).approve(tradeSettlement.address, TRADE_AMOUNT.div(2));
+        it("Should reject two orders on the same side", async function () {
+            const secondBid: Order = { ...order2, side: Side.Bid };
 
             await expect(
                 tradeSettlement.settleTrade(
                     tradeData,
-                    trader1.address,
-                    trader2.address,
-                    TRADE_AMOUNT,
-                    TRADE_AMOUNT,
-                    party1Side,
-                    party2Side,
+                    order1,
                     signature1,
-                    signature2,
-                    nonce1,
-                    nonce2
+                    secondBid,
+                    await signOrder(trader2, domain, secondBid)
                 )
+            ).to.be.revertedWith("Orders must be on opposite sides");
+        });
+
+        it("Should reject expired orders", async function () {
+            await ethers.provider.send("evm_increaseTime", [3601]);
+
+            await expect(
+                tradeSettlement.settleTrade(tradeData, order1, signature1, order2, signature2)
+            ).to.be.revertedWith("Order expired");
+        });
+
+        it("Should reject orders cancelled by their maker", async function () {
+            const orderHash = hashOrder(domain, order2);
+
+            await expect(tradeSettlement.connect(trader2).cancelOrder(orderHash))
+                .to.emit(tradeSettlement, "OrderCancelled")
+                .withArgs(trader2.address, orderHash);
+            expect(await tradeSettlement.cancelledOrders(trader2.address, orderHash)).to.be.true;
+
+            await expect(
+                tradeSettlement.settleTrade(tradeData, order1, signature1, order2, signature2)
+            ).to.be.revertedWith("Order cancelled");
+            await expect(tradeSettlement.connect(trader2).cancelOrder(orderHash))
+                .to.be.revertedWith("Order already cancelled");
+        });
+
+        it("Should not let other accounts cancel an order", async function () {
+            // Cancellations are keyed by the caller, so this does not touch trader2's order
+            await tradeSettlement.connect(other).cancelOrder(hashOrder(domain, order2));
+
+            await expect(
+                tradeSettlement.settleTrade(tradeData, order1, signature1, order2, signature2)
+            ).to.emit(tradeSettlement, "TradeSettled");
+        });
+
+        it("Should reject trades with insufficient allowance", async function () {
+            // Reduce allowance
+            await baseToken.connect(trader2).approve(tradeSettlement.address, TRADE_AMOUNT.div(2));
+
+            await expect(
+                tradeSettlement.settleTrade(tradeData, order1, signature1, order2, signature2)
             ).to.be.revertedWith("Insufficient base asset allowance");
         });
 
@@ -350,23 +370,614 @@ describe("TradeSettlement", function () {
             await baseToken.connect(trader2).transfer(other.address, balance.sub(TRADE_AMOUNT.div(2)));
 
             await expect(
-                tradeSettlement.settleTrade(
-                    tradeData,
-                    trader1.address,
-                    trader2.address,
-                    TRADE_AMOUNT,
-                    TRADE_AMOUNT,
-                    party1Side,
-                    party2Side,
-                    signature1,
-                    signature2,
-                    nonce1,
-                    nonce2
-                )
+                tradeSettlement.settleTrade(tradeData, order1, signature1, order2, signature2)
             ).to.be.revertedWith("Insufficient base asset balance");
         });
     });
 
+    describe("Partial Fills", function () {
+        let makerOrder: Order, makerSignature: string;
+        let expiry: number;
+
+        // Trade of `quantity` between a taker's bid and the maker's ask
+        async function fill(taker: SignerWithAddress, quantity: BigNumber, tradeId: string) {
+            const takerOrder: Order = { ...makerOrder, maker: taker.address, side: Side.Bid, quantity };
+            const tradeData = {
+                orderId: 1,
+                account: taker.address,
+                price: PRICE,
+                quantity,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                tradeId,
+                timestamp: makerOrder.timestamp,
+                isValid: true
+            };
+            return tradeSettlement.settleTrade(
+                tradeData,
+                takerOrder,
+                await signOrder(taker, domain, takerOrder),
+                makerOrder,
+                makerSignature
+            );
+        }
+
+        beforeEach(async function () {
+            // A third trader takes the rest of the maker's quote
+            await quoteToken.transfer(other.address, ethers.utils.parseEther("10000"));
+            await quoteToken.connect(other).approve(tradeSettlement.address, ethers.constants.MaxUint256);
+
+            expiry = (await latestTimestamp()) + 3600;
+            makerOrder = {
+                maker: trader2.address,
+                orderId: 1,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
+                side: Side.Ask,
+                timestamp: 1700000000,
+                nonce: 0,
+                expiry,
+            };
+            makerSignature = await signOrder(trader2, domain, makerOrder);
+        });
+
+        it("Should fill one quote across several takers", async function () {
+            const makerHash = hashOrder(domain, makerOrder);
+
+            await expect(fill(trader1, ethers.utils.parseEther("60"), "trade-1"))
+                .to.emit(tradeSettlement, "OrderFilled")
+                .withArgs(makerHash, trader2.address, ethers.utils.parseEther("60"), ethers.utils.parseEther("60"), PRICE, 0);
+            expect(await tradeSettlement.getRemainingQuantity(makerOrder)).to.equal(ethers.utils.parseEther("40"));
+
+            await fill(other, ethers.utils.parseEther("40"), "trade-2");
+
+            expect(await tradeSettlement.filledQuantity(makerHash)).to.equal(TRADE_AMOUNT);
+            expect(await tradeSettlement.getRemainingQuantity(makerOrder)).to.equal(0);
+            expect(await baseToken.balanceOf(other.address)).to.equal(ethers.utils.parseEther("40"));
+        });
+
+        it("Should reject fills beyond the signed quantity", async function () {
+            await expect(fill(trader1, TRADE_AMOUNT.add(1), "trade-1"))
+                .to.be.revertedWith("Order overfilled");
+
+            await fill(trader1, ethers.utils.parseEther("60"), "trade-1");
+            await expect(fill(other, ethers.utils.parseEther("41"), "trade-2"))
+                .to.be.revertedWith("Order overfilled");
+        });
+
+        it("Should report nothing remaining once an order is no longer live", async function () {
+            await tradeSettlement.connect(trader2).cancelOrder(hashOrder(domain, makerOrder));
+            expect(await tradeSettlement.getRemainingQuantity(makerOrder)).to.equal(0);
+        });
+    });
+
+    describe("Batch Settlement", function () {
+        const FILL = ethers.utils.parseEther("10");
+        let makerOrder: Order, makerSignature: string, takerOrder: Order, takerSignature: string;
+
+        // One fill of FILL between the taker's bid and the maker's ask
+        function buildMatch(tradeId: string, overrides: Partial<TradeSettlement.MatchStruct> = {}): TradeSettlement.MatchStruct {
+            return {
+                tradeData: {
+                    orderId: 1,
+                    account: trader1.address,
+                    price: PRICE,
+                    quantity: FILL,
+                    baseAsset: baseToken.address,
+                    quoteAsset: quoteToken.address,
+                    tradeId,
+                    timestamp: makerOrder.timestamp,
+                    isValid: true
+                },
+                order1: takerOrder,
+                signature1: takerSignature,
+                order2: makerOrder,
+                signature2: makerSignature,
+                ...overrides,
+            };
+        }
+
+        beforeEach(async function () {
+            const order = {
+                orderId: 1,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
+                timestamp: 1700000000,
+                nonce: 0,
+                expiry: (await latestTimestamp()) + 3600,
+            };
+            takerOrder = { ...order, maker: trader1.address, side: Side.Bid };
+            makerOrder = { ...order, maker: trader2.address, side: Side.Ask };
+            takerSignature = await signOrder(trader1, domain, takerOrder);
+            makerSignature = await signOrder(trader2, domain, makerOrder);
+        });
+
+        it("Should settle every match of an atomic batch", async function () {
+            const matches = ["fill-1", "fill-2", "fill-3", "fill-4", "fill-5"].map((id) => buildMatch(id));
+
+            expect(await tradeSettlement.callStatic.settleTrades(matches, true)).to.equal(5);
+            const receipt = await (await tradeSettlement.settleTrades(matches, true)).wait();
+
+            expect(await tradeSettlement.filledQuantity(hashOrder(domain, makerOrder))).to.equal(FILL.mul(5));
+            expect(await baseToken.balanceOf(trader1.address)).to.equal(ethers.utils.parseEther("10050"));
+
+            // Compare with settling the same fill on its own
+            const single = buildMatch("fill-6");
+            const singleReceipt = await (await tradeSettlement.settleTrade(
+                single.tradeData, single.order1, single.signature1, single.order2, single.signature2
+            )).wait();
+            console.log(`      ⛽ gas per fill: batch ${receipt.gasUsed.div(5)}, single ${singleReceipt.gasUsed}`);
+        });
+
+        it("Should revert an atomic batch when any match fails", async function () {
+            const overfill = buildMatch("fill-2");
+            overfill.tradeData = { ...overfill.tradeData, quantity: TRADE_AMOUNT };
+            const matches = [buildMatch("fill-1"), overfill];
+
+            await expect(tradeSettlement.settleTrades(matches, true))
+                .to.be.revertedWith("Order overfilled");
+            expect(await tradeSettlement.filledQuantity(hashOrder(domain, makerOrder))).to.equal(0);
+        });
+
+        it("Should skip failed matches and report why", async function () {
+            const expired = { ...makerOrder, expiry: 1 };
+            const matches = [
+                buildMatch("fill-1"),
+                buildMatch("fill-2", { order2: expired, signature2: await signOrder(trader2, domain, expired) }),
+                buildMatch("fill-1"), // replay of the first match
+                buildMatch("fill-3"),
+            ];
+            const reason = (message: string) =>
+                new ethers.utils.Interface(["function Error(string)"]).encodeFunctionData("Error", [message]);
+
+            expect(await tradeSettlement.callStatic.settleTrades(matches, false)).to.equal(2);
+            const tx = tradeSettlement.settleTrades(matches, false);
+            await expect(tx).to.emit(tradeSettlement, "TradeFailed").withArgs(1, reason("Order expired"));
+            await expect(tx).to.emit(tradeSettlement, "TradeFailed").withArgs(2, reason("Trade already executed"));
+
+            const receipt = await (await tx).wait();
+            console.log(`      ⛽ gas per fill (skip-failed mode): ${receipt.gasUsed.div(matches.length)}`);
+            expect(await tradeSettlement.filledQuantity(hashOrder(domain, makerOrder))).to.equal(FILL.mul(2));
+        });
+
+        it("Should only let settlement operators batch or settle through the batch entry point", async function () {
+            await expect(tradeSettlement.connect(other).settleTrades([buildMatch("fill-1")], false))
+                .to.be.reverted;
+            await expect(tradeSettlement.settleMatchFromBatch(buildMatch("fill-1")))
+                .to.be.revertedWith("Only callable by settleTrades");
+        });
+    });
+
+    describe("Ring Settlement", function () {
+        let thirdToken: MockERC20;
+        let expiry: number;
+
+        type RingOrder = Omit<Order, "maker" | "timestamp" | "nonce" | "expiry">;
+
+        // Sign `order` as `signer` and fill `quantity` of it at `price`
+        async function ringFill(signer: SignerWithAddress, order: RingOrder, quantity: BigNumber, price: BigNumber) {
+            const signed: Order = { ...order, maker: signer.address, timestamp: 1700000000, nonce: 0, expiry };
+            return { order: signed, signature: await signOrder(signer, domain, signed), quantity, price };
+        }
+
+        beforeEach(async function () {
+            const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
+            thirdToken = (await MockERC20Factory.deploy("Third Token", "THIRD", INITIAL_SUPPLY, 18)) as MockERC20;
+            await thirdToken.deployed();
+
+            await tradeSettlement.setTokenAllowed(thirdToken.address, true);
+            await tradeSettlement.listPair(quoteToken.address, thirdToken.address, 1, 1, 0);
+            await tradeSettlement.listPair(baseToken.address, thirdToken.address, 1, 1, 0);
+
+            await baseToken.transfer(other.address, ethers.utils.parseEther("10000"));
+            await thirdToken.transfer(other.address, ethers.utils.parseEther("10000"));
+            await baseToken.connect(other).approve(tradeSettlement.address, ethers.constants.MaxUint256);
+            await thirdToken.connect(other).approve(tradeSettlement.address, ethers.constants.MaxUint256);
+
+            expiry = (await latestTimestamp()) + 3600;
+        });
+
+        it("Should settle a cycle across three pairs with net transfers", async function () {
+            // trader1 sells BASE for QUOTE, trader2 sells QUOTE for THIRD, other buys BASE with THIRD
+            const sellBase = {
+                orderId: 1, baseAsset: baseToken.address, quoteAsset: quoteToken.address,
+                price: PRICE, quantity: TRADE_AMOUNT, side: Side.Ask
+            };
+            const sellQuote = {
+                orderId: 2, baseAsset: quoteToken.address, quoteAsset: thirdToken.address,
+                price: ethers.utils.parseEther("2"), quantity: ethers.utils.parseEther("150"), side: Side.Ask
+            };
+            const buyBase = {
+                orderId: 3, baseAsset: baseToken.address, quoteAsset: thirdToken.address,
+                price: ethers.utils.parseEther("3"), quantity: TRADE_AMOUNT, side: Side.Bid
+            };
+            const fills = [
+                await ringFill(trader1, sellBase, TRADE_AMOUNT, PRICE),
+                await ringFill(trader2, sellQuote, ethers.utils.parseEther("150"), ethers.utils.parseEther("2")),
+                await ringFill(other, buyBase, TRADE_AMOUNT, ethers.utils.parseEther("3")),
+            ];
+
+            await expect(tradeSettlement.settleRing(fills))
+                .to.emit(tradeSettlement, "RingSettled")
+                .withArgs(3, 3, 6);
+
+            expect(await baseToken.balanceOf(trader1.address)).to.equal(ethers.utils.parseEther("9900"));
+            expect(await quoteToken.balanceOf(trader1.address)).to.equal(ethers.utils.parseEther("10150"));
+            expect(await quoteToken.balanceOf(trader2.address)).to.equal(ethers.utils.parseEther("9850"));
+            expect(await thirdToken.balanceOf(trader2.address)).to.equal(ethers.utils.parseEther("300"));
+            expect(await baseToken.balanceOf(other.address)).to.equal(ethers.utils.parseEther("10100"));
+            expect(await thirdToken.balanceOf(other.address)).to.equal(ethers.utils.parseEther("9700"));
+            expect(await baseToken.balanceOf(tradeSettlement.address)).to.equal(0);
+        });
+
+        it("Should net one taker's fills against several makers", async function () {
+            const takerOrder = { orderId: 1, baseAsset: baseToken.address, quoteAsset: quoteToken.address, price: ethers.utils.parseEther("1.6"), quantity: TRADE_AMOUNT, side: Side.Bid };
+            const makerOrder = { ...takerOrder, price: PRICE, side: Side.Ask };
+            const fills = [
+                await ringFill(trader1, takerOrder, ethers.utils.parseEther("60"), PRICE),
+                await ringFill(trader2, makerOrder, ethers.utils.parseEther("60"), PRICE),
+                await ringFill(trader1, takerOrder, ethers.utils.parseEther("40"), ethers.utils.parseEther("1.55")),
+                await ringFill(other, makerOrder, ethers.utils.parseEther("40"), ethers.utils.parseEther("1.55")),
+            ];
+
+            // trader1 pays its quote once and receives its base once
+            await expect(tradeSettlement.settleRing(fills))
+                .to.emit(tradeSettlement, "RingSettled")
+                .withArgs(4, 3, 6);
+
+            expect(await tradeSettlement.filledQuantity(hashOrder(domain, fills[0].order))).to.equal(TRADE_AMOUNT);
+            expect(await baseToken.balanceOf(trader1.address)).to.equal(ethers.utils.parseEther("10100"));
+            expect(await quoteToken.balanceOf(trader1.address)).to.equal(ethers.utils.parseEther("9848"));
+            expect(await quoteToken.balanceOf(other.address)).to.equal(ethers.utils.parseEther("62"));
+        });
+
+        it("Should reject a ring that breaks any participant's limit", async function () {
+            const bid = { orderId: 1, baseAsset: baseToken.address, quoteAsset: quoteToken.address, price: PRICE, quantity: TRADE_AMOUNT, side: Side.Bid };
+            const ask = { ...bid, side: Side.Ask };
+            const tooHigh = ethers.utils.parseEther("1.6");
+
+            await expect(tradeSettlement.settleRing([
+                await ringFill(trader1, bid, TRADE_AMOUNT, tooHigh),
+                await ringFill(trader2, ask, TRADE_AMOUNT, tooHigh),
+            ])).to.be.revertedWith("Price outside order limit");
+
+            await expect(tradeSettlement.settleRing([
+                await ringFill(trader1, bid, TRADE_AMOUNT, PRICE),
+                await ringFill(trader2, ask, TRADE_AMOUNT.add(1), PRICE),
+            ])).to.be.revertedWith("Order overfilled");
+        });
+
+        it("Should reject a ring that does not net to zero", async function () {
+            const bid = { orderId: 1, baseAsset: baseToken.address, quoteAsset: quoteToken.address, price: PRICE, quantity: TRADE_AMOUNT, side: Side.Bid };
+            const ask = { ...bid, side: Side.Ask };
+
+            await expect(tradeSettlement.settleRing([
+                await ringFill(trader1, bid, TRADE_AMOUNT, PRICE),
+                await ringFill(trader2, ask, ethers.utils.parseEther("60"), PRICE),
+            ])).to.be.revertedWith("Ring does not net to zero");
+        });
+
+        it("Should reject unsigned rings and non-operators", async function () {
+            const bid = { orderId: 1, baseAsset: baseToken.address, quoteAsset: quoteToken.address, price: PRICE, quantity: TRADE_AMOUNT, side: Side.Bid };
+            const fills = [
+                await ringFill(trader1, bid, TRADE_AMOUNT, PRICE),
+                await ringFill(trader2, { ...bid, side: Side.Ask }, TRADE_AMOUNT, PRICE),
+            ];
+
+            await expect(tradeSettlement.settleRing([fills[0], { ...fills[1], signature: fills[0].signature }]))
+                .to.be.revertedWith("Invalid ring signature");
+            await expect(tradeSettlement.settleRing([fills[0]]))
+                .to.be.revertedWith("Ring needs at least two fills");
+            await expect(tradeSettlement.connect(other).settleRing(fills)).to.be.reverted;
+        });
+    });
+
+    describe("Token Decimals", function () {
+        const USDC_PRICE = ethers.utils.parseEther("0.35"); // 0.35 USDC per BASE
+        let usdc: MockERC20;
+        let bid: Order, ask: Order;
+
+        // Settle `quantity` between trader1's bid and trader2's ask with `taker` as the account
+        async function settle(quantity: BigNumber, taker: SignerWithAddress) {
+            const tradeData = {
+                orderId: 1,
+                account: taker.address,
+                price: USDC_PRICE,
+                quantity,
+                baseAsset: baseToken.address,
+                quoteAsset: usdc.address,
+                tradeId: `fill-${quantity}`,
+                timestamp: bid.timestamp,
+                isValid: true
+            };
+            return tradeSettlement.settleTrade(
+                tradeData,
+                bid,
+                await signOrder(trader1, domain, bid),
+                ask,
+                await signOrder(trader2, domain, ask)
+            );
+        }
+
+        beforeEach(async function () {
+            const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
+            usdc = (await MockERC20Factory.deploy("USD Coin", "USDC", ethers.utils.parseUnits("1000000", 6), 6)) as MockERC20;
+            await usdc.deployed();
+
+            await tradeSettlement.setTokenAllowed(usdc.address, true);
+            await tradeSettlement.listPair(baseToken.address, usdc.address, 1, 1, 0);
+
+            await usdc.transfer(trader1.address, ethers.utils.parseUnits("10000", 6));
+            await usdc.connect(trader1).approve(tradeSettlement.address, ethers.constants.MaxUint256);
+
+            const order = {
+                orderId: 1,
+                baseAsset: baseToken.address,
+                quoteAsset: usdc.address,
+                price: USDC_PRICE,
+                quantity: TRADE_AMOUNT,
+                timestamp: 1700000000,
+                nonce: 0,
+                expiry: (await latestTimestamp()) + 3600,
+            };
+            bid = { ...order, maker: trader1.address, side: Side.Bid };
+            ask = { ...order, maker: trader2.address, side: Side.Ask };
+        });
+
+        it("Should scale the quote amount by each token's decimals", async function () {
+            expect(await usdc.decimals()).to.equal(6);
+
+            await settle(TRADE_AMOUNT, trader1);
+
+            expect(await usdc.balanceOf(trader2.address)).to.equal(ethers.utils.parseUnits("35", 6));
+            expect(await baseToken.balanceOf(trader1.address)).to.equal(ethers.utils.parseEther("10100"));
+        });
+
+        it("Should round the quote in favour of the party that isn't the taker", async function () {
+            // 1 BASE plus 1 wei is worth just over 350000 USDC units
+            const quantity = ethers.utils.parseEther("1").add(1);
+
+            // A taker bid pays the rounded-up amount
+            await settle(quantity, trader1);
+            expect(await usdc.balanceOf(trader2.address)).to.equal(350001);
+
+            // A taker ask receives the rounded-down amount
+            await settle(quantity.add(1), trader2);
+            expect(await usdc.balanceOf(trader2.address)).to.equal(350001 + 350000);
+        });
+
+        it("Should reject fills whose quote amount rounds to zero", async function () {
+            await expect(settle(BigNumber.from(1), trader2))
+                .to.be.revertedWith("Quote amount rounds to zero");
+        });
+    });
+
+    describe("Pair Registry", function () {
+        let bid: Order, ask: Order;
+
+        // Settle trader1's bid against trader2's ask at `price` for `quantity`
+        async function settle(quantity: BigNumber, price: BigNumber = PRICE, tradeId = "pair-1") {
+            const tradeData = {
+                orderId: 1,
+                account: trader1.address,
+                price,
+                quantity,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                tradeId,
+                timestamp: bid.timestamp,
+                isValid: true
+            };
+            return tradeSettlement.settleTrade(
+                tradeData,
+                bid,
+                await signOrder(trader1, domain, bid),
+                ask,
+                await signOrder(trader2, domain, ask)
+            );
+        }
+
+        beforeEach(async function () {
+            const order = {
+                orderId: 1,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
+                timestamp: 1700000000,
+                nonce: 0,
+                expiry: (await latestTimestamp()) + 3600,
+            };
+            bid = { ...order, maker: trader1.address, side: Side.Bid };
+            ask = { ...order, maker: trader2.address, side: Side.Ask, price: ethers.utils.parseEther("1.49") };
+        });
+
+        it("Should list pairs with a decimals snapshot and enumerate them", async function () {
+            const pair = await tradeSettlement.getPair(baseToken.address, quoteToken.address);
+            expect(pair.enabled).to.be.true;
+            expect(pair.tickSize).to.equal(1);
+            expect(pair.baseDecimals).to.equal(18);
+            expect(pair.quoteDecimals).to.equal(18);
+
+            expect(await tradeSettlement.getPairCount()).to.equal(1);
+            const pairs = await tradeSettlement.getPairs();
+            expect(pairs[0].baseAsset).to.equal(baseToken.address);
+            expect(pairs[0].quoteAsset).to.equal(quoteToken.address);
+            expect(await tradeSettlement.pairIds(0)).to.equal(
+                await tradeSettlement.pairId(baseToken.address, quoteToken.address)
+            );
+        });
+
+        it("Should only list pairs of allowed tokens, once", async function () {
+            await expect(tradeSettlement.listPair(baseToken.address, other.address, 1, 1, 0))
+                .to.be.revertedWith("Token not allowed");
+            await expect(tradeSettlement.listPair(baseToken.address, quoteToken.address, 1, 1, 0))
+                .to.be.revertedWith("Pair already listed");
+            await expect(tradeSettlement.listPair(quoteToken.address, baseToken.address, 0, 1, 0))
+                .to.be.revertedWith("Invalid tick or lot size");
+            await expect(tradeSettlement.connect(other).listPair(quoteToken.address, baseToken.address, 1, 1, 0))
+                .to.be.reverted;
+        });
+
+        it("Should reject trades on unlisted or disabled pairs and delisted tokens", async function () {
+            await tradeSettlement.setPairEnabled(baseToken.address, quoteToken.address, false);
+            await expect(settle(TRADE_AMOUNT)).to.be.revertedWith("Pair not enabled");
+
+            await tradeSettlement.setPairEnabled(baseToken.address, quoteToken.address, true);
+            await tradeSettlement.setTokenAllowed(quoteToken.address, false);
+            await expect(settle(TRADE_AMOUNT)).to.be.revertedWith("Token not allowed");
+
+            await expect(tradeSettlement.setPairEnabled(quoteToken.address, baseToken.address, true))
+                .to.be.revertedWith("Pair not listed");
+        });
+
+        it("Should enforce tick size, lot size and minimum notional", async function () {
+            const tick = ethers.utils.parseEther("0.01");
+            const lot = ethers.utils.parseEther("1");
+            await expect(tradeSettlement.updatePair(baseToken.address, quoteToken.address, tick, lot, ethers.utils.parseEther("10")))
+                .to.emit(tradeSettlement, "PairUpdated");
+
+            await expect(settle(TRADE_AMOUNT, ethers.utils.parseEther("1.495")))
+                .to.be.revertedWith("Price not a multiple of tick size");
+            await expect(settle(ethers.utils.parseEther("10.5")))
+                .to.be.revertedWith("Quantity not a multiple of lot size");
+            await expect(settle(ethers.utils.parseEther("6")))
+                .to.be.revertedWith("Below minimum notional");
+
+            // 7 BASE at 1.5 is 10.5 QUOTE
+            await expect(settle(ethers.utils.parseEther("7"))).to.emit(tradeSettlement, "TradeSettled");
+        });
+    });
+
+    describe("Trading Fees", function () {
+        const MAKER_FEE = 10; // 0.1%
+        const TAKER_FEE = 30; // 0.3%
+        let makerOrder: Order, takerOrder: Order;
+        let tradeData: any;
+
+        async function settle(data = tradeData) {
+            return tradeSettlement.settleTrade(
+                data,
+                takerOrder,
+                await signOrder(trader1, domain, takerOrder),
+                makerOrder,
+                await signOrder(trader2, domain, makerOrder)
+            );
+        }
+
+        beforeEach(async function () {
+            const order = {
+                orderId: 1,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
+                timestamp: 1700000000,
+                nonce: 0,
+                expiry: (await latestTimestamp()) + 3600,
+            };
+            takerOrder = { ...order, maker: trader1.address, side: Side.Bid };
+            makerOrder = { ...order, maker: trader2.address, side: Side.Ask };
+            tradeData = {
+                orderId: 1,
+                account: trader1.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                tradeId: "fee-1",
+                timestamp: order.timestamp,
+                isValid: true
+            };
+
+            await tradeSettlement.setMakerFee(MAKER_FEE);
+            await tradeSettlement.setTakerFee(TAKER_FEE);
+            await tradeSettlement.setFeeRecipient(other.address);
+        });
+
+        it("Should charge maker and taker fees in the asset each party receives", async function () {
+            const quoteAmount = TRADE_AMOUNT.mul(PRICE).div(ethers.utils.parseEther("1"));
+            const takerFee = TRADE_AMOUNT.mul(TAKER_FEE).div(10000); // taker bid receives base
+            const makerFee = quoteAmount.mul(MAKER_FEE).div(10000); // maker ask receives quote
+
+            const receipt = await (await settle()).wait();
+            const settled = receipt.events!.find((e) => e.event === "TradeSettled")!;
+            expect(settled.args!.baseFee).to.equal(takerFee);
+            expect(settled.args!.quoteFee).to.equal(makerFee);
+
+            expect(await baseToken.balanceOf(trader1.address)).to.equal(ethers.utils.parseEther("10100").sub(takerFee));
+            expect(await quoteToken.balanceOf(trader1.address)).to.equal(ethers.utils.parseEther("10000").sub(quoteAmount));
+            expect(await quoteToken.balanceOf(trader2.address)).to.equal(ethers.utils.parseEther("10000").add(quoteAmount).sub(makerFee));
+            expect(await tradeSettlement.accumulatedFees(baseToken.address)).to.equal(takerFee);
+            expect(await tradeSettlement.accumulatedFees(quoteToken.address)).to.equal(makerFee);
+            expect(await quoteToken.balanceOf(tradeSettlement.address)).to.equal(makerFee);
+        });
+
+        it("Should charge the taker rate to whichever party is the account", async function () {
+            const quoteAmount = TRADE_AMOUNT.mul(PRICE).div(ethers.utils.parseEther("1"));
+
+            await settle({ ...tradeData, account: trader2.address });
+
+            expect(await tradeSettlement.accumulatedFees(baseToken.address)).to.equal(TRADE_AMOUNT.mul(MAKER_FEE).div(10000));
+            expect(await tradeSettlement.accumulatedFees(quoteToken.address)).to.equal(quoteAmount.mul(TAKER_FEE).div(10000));
+        });
+
+        it("Should reject a taker that is not a party to the trade", async function () {
+            await expect(settle({ ...tradeData, account: other.address }))
+                .to.be.revertedWith("Taker must be a party");
+        });
+
+        it("Should charge ring fills the maker fee", async function () {
+            const fills = [];
+            for (const [signer, order] of [[trader1, takerOrder], [trader2, makerOrder]] as const) {
+                fills.push({ order, signature: await signOrder(signer, domain, order), quantity: TRADE_AMOUNT, price: PRICE });
+            }
+            const quoteAmount = TRADE_AMOUNT.mul(PRICE).div(ethers.utils.parseEther("1"));
+
+            await tradeSettlement.settleRing(fills);
+
+            expect(await tradeSettlement.accumulatedFees(baseToken.address)).to.equal(TRADE_AMOUNT.mul(MAKER_FEE).div(10000));
+            expect(await tradeSettlement.accumulatedFees(quoteToken.address)).to.equal(quoteAmount.mul(MAKER_FEE).div(10000));
+            expect(await baseToken.balanceOf(tradeSettlement.address)).to.equal(TRADE_AMOUNT.mul(MAKER_FEE).div(10000));
+        });
+
+        it("Should cap fee rates at the admin's maximum", async function () {
+            await expect(tradeSettlement.setTakerFee(101)).to.be.revertedWith("Fee above maximum");
+
+            await expect(tradeSettlement.connect(other).setMaxFee(500)).to.be.reverted;
+            await expect(tradeSettlement.setMaxFee(20)).to.be.revertedWith("Max fee below current fees");
+            await expect(tradeSettlement.setMaxFee(500))
+                .to.emit(tradeSettlement, "MaxFeeSet")
+                .withArgs(500, 100);
+
+            await expect(tradeSettlement.setTakerFee(500))
+                .to.emit(tradeSettlement, "TakerFeeSet")
+                .withArgs(500, TAKER_FEE);
+            await expect(tradeSettlement.connect(trader1).setMakerFee(0)).to.be.reverted;
+        });
+
+        it("Should withdraw collected fees to the fee recipient", async function () {
+            await settle();
+            const baseFees = await tradeSettlement.accumulatedFees(baseToken.address);
+
+            await expect(tradeSettlement.connect(trader1).withdrawFees(baseToken.address))
+                .to.be.revertedWith("Not authorized to withdraw fees");
+
+            await expect(tradeSettlement.connect(other).withdrawFees(baseToken.address))
+                .to.emit(tradeSettlement, "FeesWithdrawn")
+                .withArgs(baseToken.address, other.address, baseFees);
+            expect(await baseToken.balanceOf(other.address)).to.equal(baseFees);
+            expect(await tradeSettlement.accumulatedFees(baseToken.address)).to.equal(0);
+
+            await expect(tradeSettlement.withdrawFees(baseToken.address))
+                .to.be.revertedWith("No fees to withdraw");
+        });
+    });
+
     // describe("Emergency Recovery", function () {
     //     it("Should allow owner to recover stuck tokens", async function () {
     //         // Send some tokens to the contract
@@ -391,21 +1002,19 @@ describe("TradeSettlement", function () {
     //                 trader1.address,
     //                 TRADE_AMOUNT
     //             )
-    //         ).to.be.revertedWith("Ownable: caller is not the owner");
+    //         ).to.be.reverted;
     //     });
     // });
 
     describe("Nonce Management", function () {
-        it("Should return correct user nonces", async function () {
-            expect(await tradeSettlement.getUserNonce(trader1.address, baseToken.address)).to.equal(0);
+        let tradeData: any, order1: Order, order2: Order;
 
-            // After a trade, nonce should increment
-            const tradeData = {
+        beforeEach(async function () {
+            tradeData = {
                 orderId: 1,
                 account: trader1.address,
                 price: PRICE,
                 quantity: TRADE_AMOUNT,
-                side: "bid",
                 baseAsset: baseToken.address,
                 quoteAsset: quoteToken.address,
                 tradeId: "trade123",
@@ -413,35 +1022,62 @@ describe("TradeSettlement", function () {
                 isValid: true
             };
 
-            const messageHash1 = ethers.utils.solidityKeccak256(
-                ["uint256", "address", "address", "uint256", "uint256", "string", "uint256", "uint256"],
-                [1, baseToken.address, quoteToken.address, PRICE, TRADE_AMOUNT, "bid", tradeData.timestamp, 0]
-            );
+            const order = {
+                orderId: 1,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
+                timestamp: tradeData.timestamp,
+                nonce: 0,
+                expiry: (await latestTimestamp()) + 3600,
+            };
+            order1 = { ...order, maker: trader1.address, side: Side.Bid };
+            order2 = { ...order, maker: trader2.address, side: Side.Ask };
+        });
 
-            const messageHash2 = ethers.utils.solidityKeccak256(
-                ["uint256", "address", "address", "uint256", "uint256", "string", "uint256", "uint256"],
-                [1, baseToken.address, quoteToken.address, PRICE, TRADE_AMOUNT, "ask", tradeData.timestamp, 0]
+        const settle = async () =>
+            tradeSettlement.settleTrade(
+                tradeData,
+                order1,
+                await signOrder(trader1, domain, order1),
+                order2,
+                await signOrder(trader2, domain, order2)
             );
 
-            const signature1 = await trader1.signMessage(ethers.utils.arrayify(messageHash1));
-            const signature2 = await trader2.signMessage(ethers.utils.arrayify(messageHash2));
+        it("Should return correct user nonces", async function () {
+            expect(await tradeSettlement.getUserNonce(trader1.address, baseToken.address)).to.equal(0);
 
-            await tradeSettlement.settleTrade(
-                tradeData,
-                trader1.address,
-                trader2.address,
-                TRADE_AMOUNT,
-                TRADE_AMOUNT,
-                "bid",
-                "ask",
-                signature1,
-                signature2,
-                0,
-                0
-            );
+            // Settlement does not consume the nonce, so other quotes with the same nonce stay live
+            await settle();
+
+            expect(await tradeSettlement.getUserNonce(trader1.address, baseToken.address)).to.equal(0);
+            expect(await tradeSettlement.getUserNonce(trader2.address, baseToken.address)).to.equal(0);
+        });
+
+        it("Should reject orders below the maker's nonce", async function () {
+            await expect(tradeSettlement.connect(trader1).incrementNonce(baseToken.address))
+                .to.emit(tradeSettlement, "NoncesInvalidated")
+                .withArgs(trader1.address, baseToken.address, 1);
+
+            await expect(settle()).to.be.revertedWith("Order nonce invalidated");
+
+            order1 = { ...order1, nonce: 1 };
+            await expect(settle()).to.emit(tradeSettlement, "TradeSettled");
+        });
+
+        it("Should cancel all orders below a nonce at once", async function () {
+            order1 = { ...order1, nonce: 4 };
+
+            await expect(tradeSettlement.connect(trader1).invalidateNonces(baseToken.address, 5))
+                .to.emit(tradeSettlement, "NoncesInvalidated")
+                .withArgs(trader1.address, baseToken.address, 5);
+            await expect(settle()).to.be.revertedWith("Order nonce invalidated");
 
-            expect(await tradeSettlement.getUserNonce(trader1.address, baseToken.address)).to.equal(1);
-            expect(await tradeSettlement.getUserNonce(trader2.address, baseToken.address)).to.equal(1);
+            await expect(tradeSettlement.connect(trader1).invalidateNonces(baseToken.address, 5))
+                .to.be.revertedWith("Nonce must increase");
+            // Nonces are per base asset
+            expect(await tradeSettlement.getUserNonce(trader1.address, quoteToken.address)).to.equal(0);
         });
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,51 @@
+// scripts/subAccountDeploy.ts
+//
+// Deploys a HyperFillSubAccount for one agent. The agent then funds it with
+// vault.moveFromVaultToWallet(amount, subAccount), approves TradeSettlement for the tokens it
+// sells, and signs orders whose maker is the sub-account.
+import { ethers } from "hardhat";
+import hre from "hardhat";
+import "dotenv/config";
+
+async function main() {
+    const VAULT_ADDRESS = process.env.VAULT_ADDRESS;
+    const SETTLEMENT_ADDRESS = process.env.SETTLEMENT_ADDRESS;
+    const AGENT_ADDRESS = process.env.AGENT_ADDRESS;
+    if (!VAULT_ADDRESS || !SETTLEMENT_ADDRESS || !AGENT_ADDRESS) {
+        throw new Error("VAULT_ADDRESS, SETTLEMENT_ADDRESS and AGENT_ADDRESS env vars are required");
+    }
+
+    const [deployer] = await ethers.getSigners();
+    console.log("🚀 Deploying HyperFillSubAccount...");
+    console.log("👤 Deploying with account:", deployer.address);
+
+    const vault = await ethers.getContractAt("HyperFillVault", VAULT_ADDRESS);
+    if (!(await vault.authorizedAgents(AGENT_ADDRESS))) {
+        console.log("⚠️  Agent is not authorized on the vault; its signatures will be rejected until it is");
+    }
+
+    const SubAccount = await ethers.getContractFactory("HyperFillSubAccount");
+    const subAccount = await SubAccount.deploy(VAULT_ADDRESS, SETTLEMENT_ADDRESS, AGENT_ADDRESS);
+    await subAccount.deployed();
+    console.log("✅ HyperFillSubAccount deployed to:", subAccount.address);
+
+    const deploymentInfo = {
+        network: hre.network.name,
+        contract: "HyperFillSubAccount",
+        address: subAccount.address,
+        vault: VAULT_ADDRESS,
+        settlement: SETTLEMENT_ADDRESS,
+        agent: AGENT_ADDRESS,
+        timestamp: new Date().toISOString(),
+    };
+
+    console.log("\n📊 DEPLOYMENT SUMMARY:");
+    console.log("=".repeat(50));
+    console.log(JSON.stringify(deploymentInfo, null, 2));
+    console.log("=".repeat(50));
+}
+
+main().catch((error) => {
+    console.error("❌ Deployment failed:", error);
+    process.exitCode = 1;
+});
@@ -43,6 +43,8 @@ async function main() {
     "function withdrawProfits() external returns (uint256 assets)",
 
     // agent flows
+    "function walletAgent(address wallet) external view returns (address)",
+    "function reserveWallet(address agent) external",
     "function moveFromVaultToWallet(uint256 amount, address tradingWallet) external",
     "function moveFromWalletToVault(uint256 amount, uint256 profitAmount, address fromWallet) external",
     "function returnAllCapital(address fromWallet) external",
@@ -179,6 +181,13 @@ async function main() {
       return;
     }
 
+    // The agent trades from its own address, which must be reserved for it before funding
+    if ((await vault.walletAgent(agent.address)) === ethers.constants.AddressZero) {
+      console.log("   🔒 Reserving agent wallet...");
+      const reserveTx = await vault.connect(agent).reserveWallet(agent.address);
+      await reserveTx.wait();
+    }
+
     console.log("   🔄 Moving from vault to agent...");
     const mvOutTx = await vault
       .connect(agent)
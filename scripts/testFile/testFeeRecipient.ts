@@ -7,7 +7,8 @@ async function main() {
     const VAULT_ABI = [
         "function setFeeRecipient(address newRecipient) external",
         "function feeRecipient() external view returns (address)",
-        "function owner() external view returns (address)"
+        "function FEE_MANAGER_ROLE() external view returns (bytes32)",
+        "function hasRole(bytes32 role, address account) external view returns (bool)"
     ];
 
     const vault = await ethers.getContractAt(VAULT_ABI, VAULT_ADDRESS);
@@ -18,17 +19,17 @@ async function main() {
         const currentFeeRecipient = await vault.feeRecipient();
         console.log(`Fee recipient actuel: ${currentFeeRecipient}`);
         
-        // 2. Vérifier le owner du contrat
-        const owner = await vault.owner();
-        console.log(`Owner du contrat: ${owner}`);
-        
-        // 3. Obtenir le signer actuel
+        // 2. Obtenir le signer actuel
         const [signer] = await ethers.getSigners();
         console.log(`Signer utilisé: ${signer.address}`);
         
-        // 4. Vérifier que le signer est le owner
-        if (owner.toLowerCase() !== signer.address.toLowerCase()) {
-            throw new Error("❌ Le signer n'est pas le owner du contrat");
+        // 3. Vérifier que le signer a le rôle fee manager
+        const isFeeManager = await vault.hasRole(await vault.FEE_MANAGER_ROLE(), signer.address);
+        console.log(`FEE_MANAGER_ROLE: ${isFeeManager}`);
+        
+        // 4. Sans ce rôle, le changement doit passer par la timelock
+        if (!isFeeManager) {
+            throw new Error("❌ Le signer n'a pas le rôle FEE_MANAGER_ROLE");
         }
         
         // 5. Si le fee recipient est déjà correct, pas besoin de changer
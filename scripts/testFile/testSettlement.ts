@@ -2,6 +2,8 @@
 import { ethers } from "hardhat";
 import { BigNumber } from "ethers";
 import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { getOrderDomain, hashOrder, Side, signOrder } from "../../sdk/orderSigning";
+import { createOrder, verifyOrderSignature } from "../../sdk/orders";
 
 async function main() {
     console.log("🧪 Testing Deployed TradeSettlement Contract...");
@@ -12,14 +14,19 @@ async function main() {
     
     // ABIs
     const TRADE_SETTLEMENT_ABI = [
-        "function owner() external view returns (address)",
+        "function SETTLEMENT_OPERATOR_ROLE() external view returns (bytes32)",
+        "function hasRole(bytes32 role, address account) external view returns (bool)",
         "function checkAllowance(address user, address token, uint256 requiredAmount) external view returns (bool sufficient, uint256 currentAllowance)",
         "function checkBalance(address user, address token, uint256 requiredAmount) external view returns (bool sufficient, uint256 currentBalance)",
         "function batchCheckAllowances(address[] memory users, address[] memory tokens, uint256[] memory amounts) external view returns (bool[] memory sufficient, uint256[] memory allowances)",
-        "function verifyTradeSignature(address signer, uint256 orderId, address baseAsset, address quoteAsset, uint256 price, uint256 quantity, string memory side, uint256 timestamp, uint256 nonce, bytes memory signature) external pure returns (bool)",
-        "function settleTrade((uint256 orderId, address account, uint256 price, uint256 quantity, string side, address baseAsset, address quoteAsset, string tradeId, uint256 timestamp, bool isValid) tradeData, address party1, address party2, uint256 party1Quantity, uint256 party2Quantity, string memory party1Side, string memory party2Side, bytes memory signature1, bytes memory signature2, uint256 nonce1, uint256 nonce2) external",
+        "function verifyTradeSignature((address maker, uint256 orderId, address baseAsset, address quoteAsset, uint256 price, uint256 quantity, uint8 side, uint256 timestamp, uint256 nonce, uint256 expiry) order, bytes signature) external view returns (bool)",
+        "function settleTrade((uint256 orderId, address account, uint256 price, uint256 quantity, address baseAsset, address quoteAsset, string tradeId, uint256 timestamp, bool isValid) tradeData, (address maker, uint256 orderId, address baseAsset, address quoteAsset, uint256 price, uint256 quantity, uint8 side, uint256 timestamp, uint256 nonce, uint256 expiry) order1, bytes signature1, (address maker, uint256 orderId, address baseAsset, address quoteAsset, uint256 price, uint256 quantity, uint8 side, uint256 timestamp, uint256 nonce, uint256 expiry) order2, bytes signature2) external",
+        "function cancelOrder(bytes32 orderHash) external",
+        "function incrementNonce(address baseAsset) external",
         "function getUserNonce(address user, address token) external view returns (uint256)",
-        "event TradeSettled(address indexed party1, address indexed party2, address indexed baseAsset, address quoteAsset, uint256 price, uint256 quantity, uint256 timestamp)"
+        "function setTokenAllowed(address token, bool allowed) external",
+        "function listPair(address baseAsset, address quoteAsset, uint256 tickSize, uint256 lotSize, uint256 minNotional) external",
+        "event TradeSettled(address indexed party1, address indexed party2, address indexed baseAsset, address quoteAsset, uint256 price, uint256 quantity, uint256 baseFee, uint256 quoteFee, uint256 timestamp)"
     ];
 
     const MOCK_ERC20_ABI = [
@@ -75,9 +82,10 @@ async function main() {
         try {
             tradeSettlement = await ethers.getContractAt(TRADE_SETTLEMENT_ABI, TRADE_SETTLEMENT_ADDRESS);
             
-            // Verify connection by calling owner()
-            const contractOwner = await tradeSettlement.owner();
-            console.log(`✅ Connected! Contract owner: ${contractOwner}`);
+            // Verify connection and that the primary signer may submit trades
+            const operatorRole = await tradeSettlement.SETTLEMENT_OPERATOR_ROLE();
+            const isOperator = await tradeSettlement.hasRole(operatorRole, owner.address);
+            console.log(`✅ Connected! Signer is settlement operator: ${isOperator}`);
         } catch (contractError) {
             console.error("❌ Failed to connect to TradeSettlement contract:");
             console.error("- Check that the contract address is correct");
@@ -92,11 +100,11 @@ async function main() {
         try {
             const MockERC20Factory = await ethers.getContractFactory("MockERC20");
             
-            baseToken = await MockERC20Factory.deploy("Base Token", "BASE", INITIAL_SUPPLY);
+            baseToken = await MockERC20Factory.deploy("Base Token", "BASE", INITIAL_SUPPLY, 18);
             await baseToken.deployed();
             console.log(`✅ Base token deployed: ${baseToken.address}`);
 
-            quoteToken = await MockERC20Factory.deploy("Quote Token", "QUOTE", INITIAL_SUPPLY);
+            quoteToken = await MockERC20Factory.deploy("Quote Token", "QUOTE", INITIAL_SUPPLY, 18);
             await quoteToken.deployed();
             console.log(`✅ Quote token deployed: ${quoteToken.address}`);
         } catch (tokenError) {
@@ -104,6 +112,13 @@ async function main() {
             throw tokenError;
         }
 
+        // Settlement only runs on listed pairs (owner must hold DEFAULT_ADMIN_ROLE)
+        console.log("\n📋 Listing BASE/QUOTE pair...");
+        await (await tradeSettlement.setTokenAllowed(baseToken.address, true)).wait();
+        await (await tradeSettlement.setTokenAllowed(quoteToken.address, true)).wait();
+        await (await tradeSettlement.listPair(baseToken.address, quoteToken.address, 1, 1, 0)).wait();
+        console.log("✅ Pair listed");
+
         // Setup trader balances and approvals
         console.log("\n💰 Setting up trader balances and approvals...");
         
@@ -169,34 +184,34 @@ async function main() {
         
         try {
             const orderId = 1;
-            const side = "bid";
+            const side = Side.Bid;
             const timestamp = Math.floor(Date.now() / 1000);
             const nonce = 0;
 
-            // Create message hash exactly like the contract
-            const messageHash = ethers.utils.solidityKeccak256(
-                ["uint256", "address", "address", "uint256", "uint256", "string", "uint256", "uint256"],
-                [orderId, baseToken.address, quoteToken.address, PRICE, TRADE_AMOUNT, side, timestamp, nonce]
-            );
-
-            console.log(`📊 Message hash: ${messageHash}`);
-
-            // Sign the message
-            const signature = await trader1.signMessage(ethers.utils.arrayify(messageHash));
-            console.log(`📊 Signature length: ${signature.length}`);
-
-            const isValid = await tradeSettlement.verifyTradeSignature(
-                trader1.address,
+            // EIP-712 domain of this deployment on this chain
+            const { chainId } = await ethers.provider.getNetwork();
+            const domain = getOrderDomain(chainId, TRADE_SETTLEMENT_ADDRESS);
+            const order = createOrder({
+                maker: trader1.address,
                 orderId,
-                baseToken.address,
-                quoteToken.address,
-                PRICE,
-                TRADE_AMOUNT,
+                baseAsset: baseToken.address,
+                quoteAsset: quoteToken.address,
+                price: PRICE,
+                quantity: TRADE_AMOUNT,
                 side,
                 timestamp,
                 nonce,
-                signature
-            );
+                expiry: timestamp + 3600,
+            });
+
+            console.log(`📊 Order hash: ${hashOrder(domain, order)}`);
+
+            // Sign the order as typed data
+            const signature = await signOrder(trader1, domain, order);
+            console.log(`📊 Signature length: ${signature.length}`);
+            console.log(`📊 Off-chain verification: ${verifyOrderSignature(domain, order, signature)}`);
+
+            const isValid = await tradeSettlement.verifyTradeSignature(order, signature);
 
             console.log(`📊 Signature verification: ${isValid}`);
 
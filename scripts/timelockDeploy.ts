@@ -0,0 +1,87 @@
+// scripts/timelockDeploy.ts
+//
+// Deploys a HyperFillTimelock and hands it the governance roles of an existing vault.
+// After this runs, admin, risk and fee changes have to be scheduled and executed through
+// scripts/timelockProposal.ts. Pause stays with the guardian and agent rotation with the
+// agent manager (the timelock unless AGENT_MANAGER_ADDRESS is set).
+import { ethers } from "hardhat";
+import hre from "hardhat";
+import "dotenv/config";
+
+async function main() {
+    const VAULT_ADDRESS = process.env.VAULT_ADDRESS;
+    if (!VAULT_ADDRESS) {
+        throw new Error("VAULT_ADDRESS env var is required");
+    }
+    const MIN_DELAY = Number(process.env.TIMELOCK_DELAY || 2 * 24 * 60 * 60); // 2 days
+
+    const [deployer] = await ethers.getSigners();
+    const proposers = (process.env.TIMELOCK_PROPOSERS || deployer.address).split(",");
+    // address(0) lets anyone execute a call once its delay has passed
+    const executors = (process.env.TIMELOCK_EXECUTORS || ethers.constants.AddressZero).split(",");
+    const guardian = process.env.GUARDIAN_ADDRESS || deployer.address;
+
+    console.log("🚀 Deploying HyperFillTimelock...");
+    console.log("👤 Deploying with account:", deployer.address);
+    console.log("⏱️  Min delay:", MIN_DELAY, "seconds");
+
+    const Timelock = await ethers.getContractFactory("HyperFillTimelock");
+    const timelock = await Timelock.deploy(MIN_DELAY, proposers, executors, ethers.constants.AddressZero);
+    await timelock.deployed();
+    console.log("✅ HyperFillTimelock deployed to:", timelock.address);
+
+    const vault = await ethers.getContractAt("HyperFillVault", VAULT_ADDRESS);
+    const agentManager = process.env.AGENT_MANAGER_ADDRESS || timelock.address;
+
+    const roles = {
+        DEFAULT_ADMIN_ROLE: await vault.DEFAULT_ADMIN_ROLE(),
+        RISK_MANAGER_ROLE: await vault.RISK_MANAGER_ROLE(),
+        FEE_MANAGER_ROLE: await vault.FEE_MANAGER_ROLE(),
+        AGENT_MANAGER_ROLE: await vault.AGENT_MANAGER_ROLE(),
+        GUARDIAN_ROLE: await vault.GUARDIAN_ROLE(),
+    };
+    const holders: Record<keyof typeof roles, string> = {
+        DEFAULT_ADMIN_ROLE: timelock.address,
+        RISK_MANAGER_ROLE: timelock.address,
+        FEE_MANAGER_ROLE: timelock.address,
+        AGENT_MANAGER_ROLE: agentManager,
+        GUARDIAN_ROLE: guardian,
+    };
+
+    for (const [name, role] of Object.entries(roles) as [keyof typeof roles, string][]) {
+        await (await vault.grantRole(role, holders[name])).wait();
+        console.log(`🔑 ${name} granted to:`, holders[name]);
+    }
+
+    // Admin last: once it is renounced, every role change goes through the timelock
+    for (const [name, role] of Object.entries(roles).reverse()) {
+        if (holders[name as keyof typeof roles] === deployer.address) continue;
+        if (await vault.hasRole(role, deployer.address)) {
+            await (await vault.renounceRole(role, deployer.address)).wait();
+            console.log(`🧹 Deployer renounced ${name}`);
+        }
+    }
+
+    const deploymentInfo = {
+        network: hre.network.name,
+        contract: "HyperFillTimelock",
+        address: timelock.address,
+        vault: VAULT_ADDRESS,
+        minDelay: MIN_DELAY,
+        proposers,
+        executors,
+        guardian,
+        agentManager,
+        timestamp: new Date().toISOString(),
+    };
+
+    console.log("\n📊 DEPLOYMENT SUMMARY:");
+    console.log("=".repeat(50));
+    console.log(JSON.stringify(deploymentInfo, null, 2));
+    console.log("=".repeat(50));
+}
+
+main().catch((error) => {
+    console.error("❌ Deployment failed:", error);
+    process.exitCode = 1;
+});
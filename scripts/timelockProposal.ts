@@ -0,0 +1,52 @@
+// scripts/timelockProposal.ts
+//
+// Schedules, executes or cancels a vault admin call through the HyperFillTimelock.
+//   ACTION=schedule FUNCTION=setManagementFee ARGS='[100]' npx hardhat run scripts/timelockProposal.ts
+//   ACTION=execute  FUNCTION=setManagementFee ARGS='[100]' npx hardhat run scripts/timelockProposal.ts
+//   ACTION=cancel   FUNCTION=setManagementFee ARGS='[100]' npx hardhat run scripts/timelockProposal.ts
+// The same FUNCTION, ARGS and SALT must be used for every step of one proposal.
+import { ethers } from "hardhat";
+import { Interface } from "ethers/lib/utils";
+import "dotenv/config";
+
+async function main() {
+    const { TIMELOCK_ADDRESS, VAULT_ADDRESS, ACTION, FUNCTION } = process.env;
+    if (!TIMELOCK_ADDRESS || !VAULT_ADDRESS || !ACTION || !FUNCTION) {
+        throw new Error("TIMELOCK_ADDRESS, VAULT_ADDRESS, ACTION and FUNCTION env vars are required");
+    }
+    const args = JSON.parse(process.env.ARGS || "[]");
+    const salt = ethers.utils.id(process.env.SALT || "");
+    const predecessor = ethers.constants.HashZero;
+
+    const timelock = await ethers.getContractAt("HyperFillTimelock", TIMELOCK_ADDRESS);
+    const vault = await ethers.getContractAt("HyperFillVault", VAULT_ADDRESS);
+
+    const data = (vault.interface as Interface).encodeFunctionData(FUNCTION, args);
+    const id = await timelock.hashOperation(VAULT_ADDRESS, 0, data, predecessor, salt);
+
+    console.log(`🏛️  ${FUNCTION}(${args.join(", ")})`);
+    console.log("🆔 Operation:", id);
+
+    if (ACTION === "schedule") {
+        const delay = await timelock.getMinDelay();
+        await (await timelock.schedule(VAULT_ADDRESS, 0, data, predecessor, salt, delay)).wait();
+        const readyAt = await timelock.getTimestamp(id);
+        console.log("✅ Scheduled, executable after:", new Date(readyAt.toNumber() * 1000).toISOString());
+    } else if (ACTION === "execute") {
+        if (!(await timelock.isOperationReady(id))) {
+            throw new Error("Operation is not ready yet");
+        }
+        await (await timelock.execute(VAULT_ADDRESS, 0, data, predecessor, salt)).wait();
+        console.log("✅ Executed");
+    } else if (ACTION === "cancel") {
+        await (await timelock.cancel(id)).wait();
+        console.log("✅ Cancelled");
+    } else {
+        throw new Error(`Unknown ACTION: ${ACTION}`);
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,99 @@
+// sdk/errors.ts
+//
+// Turns failed calls into readable errors. Reverts from HyperFill contracts surface as
+// `require` strings ("HyperFillVault: Exceeds max allocation"), panics, or OpenZeppelin
+// custom errors (AccessControlUnauthorizedAccount, ERC20InsufficientBalance, ...).
+import { Interface, Result } from "ethers/lib/utils";
+
+// ethers v5 will not parse Error and Panic as error fragments; their selectors match these functions
+const BUILTIN_ERRORS = new Interface(["function Error(string reason)", "function Panic(uint256 code)"]);
+
+export interface DecodedRevert {
+  name: string; // "Error", "Panic" or the custom error name
+  args: Result;
+  reason: string; // the require string, or a formatted panic / custom error
+}
+
+/**
+ * Error thrown by the SDK clients when a call or transaction reverts
+ */
+export class HyperFillError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly revert: DecodedRevert | undefined,
+    readonly cause: unknown
+  ) {
+    super(reason);
+    this.name = "HyperFillError";
+  }
+}
+
+/**
+ * Decode raw revert data against the builtin Error/Panic types and a contract's custom errors
+ */
+export function decodeRevertData(data: string, iface?: Interface): DecodedRevert | undefined {
+  if (!data || data === "0x" || data.length < 10) return undefined;
+
+  const selector = data.slice(0, 10);
+  try {
+    const fragment = BUILTIN_ERRORS.getFunction(selector);
+    const args = BUILTIN_ERRORS.decodeFunctionData(fragment, data);
+    const reason = fragment.name === "Error" ? args.reason : `Panic(0x${args.code.toNumber().toString(16)})`;
+    return { name: fragment.name, args, reason };
+  } catch {
+    // not a builtin error
+  }
+
+  if (!iface) return undefined;
+  try {
+    const fragment = iface.getError(selector);
+    const args = iface.decodeErrorResult(fragment, data);
+    return { name: fragment.name, args, reason: `${fragment.name}(${args.map(String).join(", ")})` };
+  } catch {
+    return undefined; // unknown custom error
+  }
+}
+
+/**
+ * Find and decode the revert data carried by an ethers or provider error
+ */
+export function decodeRevert(error: unknown, iface?: Interface): DecodedRevert | undefined {
+  // Providers nest the revert data at different depths (error.data, error.error.data, ...)
+  const seen = new Set<unknown>();
+  const queue: unknown[] = [error];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || typeof current !== "object" || seen.has(current)) continue;
+    seen.add(current);
+
+    const { data } = current as { data?: unknown };
+    if (typeof data === "string") {
+      const decoded = decodeRevertData(data, iface);
+      if (decoded) return decoded;
+    }
+    for (const key of ["error", "data", "cause"]) {
+      queue.push((current as Record<string, unknown>)[key]);
+    }
+  }
+
+  // Some nodes only return the message
+  const message = (error as { message?: string })?.message ?? "";
+  const match = message.match(/reverted with reason string '(.*)'/) ?? message.match(/execution reverted: (.*?)(["\n]|$)/);
+  if (match) {
+    return { name: "Error", args: [match[1]] as unknown as Result, reason: match[1] };
+  }
+  return undefined;
+}
+
+/**
+ * Run a contract call, rethrowing any revert as a HyperFillError with its decoded reason
+ */
+export async function withRevertReason<T>(iface: Interface, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    const revert = decodeRevert(error, iface);
+    const reason = revert?.reason ?? (error as { reason?: string })?.reason ?? String(error);
+    throw new HyperFillError(reason, revert, error);
+  }
+}
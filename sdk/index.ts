@@ -0,0 +1,10 @@
+// sdk/index.ts
+//
+// Entry point for front ends and agents: typed clients for the vault and settlement
+// contracts, order signing helpers and revert decoding.
+export * from "./orderSigning";
+export * from "./orders";
+export * from "./errors";
+export * from "./transactions";
+export * from "./vaultClient";
+export * from "./settlementClient";
@@ -0,0 +1,81 @@
+// sdk/orderSigning.ts
+//
+// EIP-712 helpers matching TradeSettlement's typed order signatures. Orders signed here
+// verify on exactly one chain and one TradeSettlement deployment.
+import { BigNumberish, Signer, TypedDataDomain, TypedDataField } from "ethers";
+import { _TypedDataEncoder, verifyTypedData } from "ethers/lib/utils";
+import type { TypedDataSigner } from "@ethersproject/abstract-signer";
+
+export const ORDER_DOMAIN_NAME = "HyperFill TradeSettlement";
+export const ORDER_DOMAIN_VERSION = "1";
+
+export const ORDER_TYPES: Record<string, TypedDataField[]> = {
+  Order: [
+    { name: "maker", type: "address" },
+    { name: "orderId", type: "uint256" },
+    { name: "baseAsset", type: "address" },
+    { name: "quoteAsset", type: "address" },
+    { name: "price", type: "uint256" },
+    { name: "quantity", type: "uint256" },
+    { name: "side", type: "uint8" },
+    { name: "timestamp", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+/** Mirrors TradeSettlement.Side */
+export enum Side {
+  Bid = 0, // buys base, pays quote
+  Ask = 1, // sells base, receives quote
+}
+
+export interface Order {
+  maker: string;
+  orderId: BigNumberish;
+  baseAsset: string;
+  quoteAsset: string;
+  price: BigNumberish; // limit price, whole quote tokens per whole base token, 18 decimals
+  quantity: BigNumberish; // maximum quantity across all fills
+  side: Side;
+  timestamp: BigNumberish;
+  nonce: BigNumberish; // invalid once below the maker's nonce for baseAsset
+  expiry: BigNumberish; // unix seconds; settlement reverts after this
+}
+
+/**
+ * EIP-712 domain of a TradeSettlement deployment
+ */
+export function getOrderDomain(chainId: number, verifyingContract: string): TypedDataDomain {
+  return {
+    name: ORDER_DOMAIN_NAME,
+    version: ORDER_DOMAIN_VERSION,
+    chainId,
+    verifyingContract,
+  };
+}
+
+/**
+ * Sign an order as its maker; wallets display the order fields instead of a hex blob
+ */
+export async function signOrder(
+  signer: Signer & TypedDataSigner,
+  domain: TypedDataDomain,
+  order: Order
+): Promise<string> {
+  return signer._signTypedData(domain, ORDER_TYPES, order);
+}
+
+/**
+ * EIP-712 digest of an order, equal to TradeSettlement.hashOrder
+ */
+export function hashOrder(domain: TypedDataDomain, order: Order): string {
+  return _TypedDataEncoder.hash(domain, ORDER_TYPES, order);
+}
+
+/**
+ * Address that signed an order
+ */
+export function recoverOrderSigner(domain: TypedDataDomain, order: Order, signature: string): string {
+  return verifyTypedData(domain, ORDER_TYPES, order, signature);
+}
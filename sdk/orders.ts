@@ -0,0 +1,156 @@
+// sdk/orders.ts
+//
+// Canonical orders for off-chain order books and agents: build the exact struct
+// TradeSettlement hashes, verify maker signatures without a node, and move signed orders
+// through JSON without losing uint256 precision.
+import { BigNumber, BigNumberish, constants, TypedDataDomain } from "ethers";
+import { getAddress, isBytesLike } from "ethers/lib/utils";
+import { Order, recoverOrderSigner, Side } from "./orderSigning";
+
+export interface OrderParams {
+  maker: string;
+  orderId: BigNumberish;
+  baseAsset: string;
+  quoteAsset: string;
+  price: BigNumberish;
+  quantity: BigNumberish;
+  side: Side;
+  expiry: BigNumberish;
+  timestamp?: BigNumberish; // defaults to now
+  nonce?: BigNumberish; // defaults to 0
+}
+
+/** An order with checksummed addresses and BigNumber amounts, as TradeSettlement decodes it */
+export interface CanonicalOrder extends Order {
+  orderId: BigNumber;
+  price: BigNumber;
+  quantity: BigNumber;
+  timestamp: BigNumber;
+  nonce: BigNumber;
+  expiry: BigNumber;
+}
+
+/** JSON form of an order; uint256 fields are decimal strings */
+export interface OrderJSON {
+  maker: string;
+  orderId: string;
+  baseAsset: string;
+  quoteAsset: string;
+  price: string;
+  quantity: string;
+  side: "bid" | "ask";
+  timestamp: string;
+  nonce: string;
+  expiry: string;
+}
+
+export interface SignedOrder {
+  order: CanonicalOrder;
+  signature: string;
+}
+
+export interface SignedOrderJSON extends OrderJSON {
+  signature: string;
+}
+
+const UINT_FIELDS = ["orderId", "price", "quantity", "timestamp", "nonce", "expiry"] as const;
+
+function toUint(field: string, value: unknown): BigNumber {
+  let amount: BigNumber;
+  try {
+    amount = BigNumber.from(value);
+  } catch {
+    throw new Error(`Invalid order ${field}: ${String(value)}`);
+  }
+  if (amount.isNegative() || amount.gt(constants.MaxUint256)) {
+    throw new Error(`Order ${field} out of uint256 range: ${amount.toString()}`);
+  }
+  return amount;
+}
+
+function toAddress(field: string, value: unknown): string {
+  try {
+    return getAddress(value as string);
+  } catch {
+    throw new Error(`Invalid order ${field}: ${String(value)}`);
+  }
+}
+
+/**
+ * Build the canonical order struct, rejecting values TradeSettlement would not accept
+ */
+export function createOrder(params: OrderParams): CanonicalOrder {
+  if (params.side !== Side.Bid && params.side !== Side.Ask) {
+    throw new Error(`Invalid order side: ${String(params.side)}`);
+  }
+  const order = {
+    maker: toAddress("maker", params.maker),
+    baseAsset: toAddress("baseAsset", params.baseAsset),
+    quoteAsset: toAddress("quoteAsset", params.quoteAsset),
+    side: params.side,
+  } as CanonicalOrder;
+  const values = { ...params, timestamp: params.timestamp ?? Math.floor(Date.now() / 1000), nonce: params.nonce ?? 0 };
+  for (const field of UINT_FIELDS) {
+    order[field] = toUint(field, values[field]);
+  }
+
+  if (order.baseAsset === order.quoteAsset) throw new Error("Identical base and quote assets");
+  if (order.quantity.isZero()) throw new Error("Order quantity is zero");
+  if (order.price.isZero()) throw new Error("Order price is zero");
+  return order;
+}
+
+/**
+ * Check off-chain that an order was signed by its maker. Only EOA makers can be checked
+ * here; HyperFillSubAccount makers need TradeSettlement.verifyTradeSignature
+ */
+export function verifyOrderSignature(domain: TypedDataDomain, order: Order, signature: string): boolean {
+  try {
+    return recoverOrderSigner(domain, order, signature) === getAddress(order.maker);
+  } catch {
+    return false; // malformed signature
+  }
+}
+
+// ===== JSON =====
+
+export function orderToJSON(order: Order): OrderJSON {
+  const canonical = createOrder(order);
+  return {
+    maker: canonical.maker,
+    orderId: canonical.orderId.toString(),
+    baseAsset: canonical.baseAsset,
+    quoteAsset: canonical.quoteAsset,
+    price: canonical.price.toString(),
+    quantity: canonical.quantity.toString(),
+    side: canonical.side === Side.Bid ? "bid" : "ask",
+    timestamp: canonical.timestamp.toString(),
+    nonce: canonical.nonce.toString(),
+    expiry: canonical.expiry.toString(),
+  };
+}
+
+/**
+ * Parse an order from its JSON form (or a JSON string), validating every field
+ */
+export function orderFromJSON(json: OrderJSON | string): CanonicalOrder {
+  const parsed: OrderJSON = typeof json === "string" ? JSON.parse(json) : json;
+  if (parsed.side !== "bid" && parsed.side !== "ask") {
+    throw new Error(`Invalid order side: ${String(parsed.side)}`);
+  }
+  for (const field of UINT_FIELDS) {
+    // Numbers above 2^53 have already lost precision by the time JSON.parse returns them
+    if (typeof parsed[field] !== "string") throw new Error(`Order ${field} must be a decimal string`);
+  }
+  return createOrder({ ...parsed, side: parsed.side === "bid" ? Side.Bid : Side.Ask });
+}
+
+export function signedOrderToJSON({ order, signature }: SignedOrder): SignedOrderJSON {
+  return { ...orderToJSON(order), signature };
+}
+
+export function signedOrderFromJSON(json: SignedOrderJSON | string): SignedOrder {
+  const parsed: SignedOrderJSON = typeof json === "string" ? JSON.parse(json) : json;
+  if (!isBytesLike(parsed.signature)) throw new Error("Invalid order signature");
+  return { order: orderFromJSON(parsed), signature: parsed.signature };
+}
@@ -0,0 +1,166 @@
+// sdk/settlementClient.ts
+//
+// Typed client for TradeSettlement built on the generated typechain bindings. It signs
+// orders against the deployment's EIP-712 domain, previews quote amounts and fees from the
+// pair registry, handles trader approvals, and decodes reverts and failed batch matches.
+import { BigNumber, BigNumberish, Signer, TypedDataDomain } from "ethers";
+import type { Provider } from "@ethersproject/providers";
+import type { TypedDataSigner } from "@ethersproject/abstract-signer";
+import { IERC20__factory, TradeSettlement, TradeSettlement__factory } from "../typechain-types";
+import type {
+  NoncesInvalidatedEvent,
+  OrderCancelledEvent,
+  RingSettledEvent,
+  TradeFailedEvent,
+  TradeSettledEvent,
+} from "../typechain-types/contracts/TradeSettlement";
+import { DecodedRevert, decodeRevertData, withRevertReason } from "./errors";
+import { getOrderDomain, hashOrder, Order, signOrder } from "./orderSigning";
+import { ensureAllowance, sendTransaction, TxResult } from "./transactions";
+
+export type TradeExecution = TradeSettlement.TradeExecutionStruct;
+export type Match = TradeSettlement.MatchStruct;
+export type RingFill = TradeSettlement.RingFillStruct;
+export type Pair = TradeSettlement.PairStructOutput;
+
+export interface BatchResult extends TxResult<TradeSettledEvent> {
+  failures: { index: number; revert: DecodedRevert | undefined; event: TradeFailedEvent }[];
+}
+
+export class TradeSettlementClient {
+  readonly contract: TradeSettlement;
+  private orderDomain?: TypedDataDomain;
+
+  constructor(address: string, signerOrProvider: Signer | Provider) {
+    this.contract = TradeSettlement__factory.connect(address, signerOrProvider);
+  }
+
+  get address(): string {
+    return this.contract.address;
+  }
+
+  // ===== ORDERS =====
+
+  /**
+   * EIP-712 domain of this deployment
+   */
+  async domain(): Promise<TypedDataDomain> {
+    if (!this.orderDomain) {
+      const { chainId } = await this.contract.provider.getNetwork();
+      this.orderDomain = getOrderDomain(chainId, this.address);
+    }
+    return this.orderDomain;
+  }
+
+  /**
+   * Sign an order for this deployment; `signer` is the maker, or the agent of a sub-account maker
+   */
+  async signOrder(signer: Signer & TypedDataSigner, order: Order): Promise<string> {
+    return signOrder(signer, await this.domain(), order);
+  }
+
+  async hashOrder(order: Order): Promise<string> {
+    return hashOrder(await this.domain(), order);
+  }
+
+  getRemainingQuantity(order: Order): Promise<BigNumber> {
+    return this.read(() => this.contract.getRemainingQuantity(order));
+  }
+
+  cancelOrder(orderHash: string): Promise<TxResult<OrderCancelledEvent>> {
+    return sendTransaction(this.contract.interface, "OrderCancelled", () => this.contract.cancelOrder(orderHash));
+  }
+
+  invalidateNonces(baseAsset: string, minNonce: BigNumberish): Promise<TxResult<NoncesInvalidatedEvent>> {
+    return sendTransaction(this.contract.interface, "NoncesInvalidated", () =>
+      this.contract.invalidateNonces(baseAsset, minNonce)
+    );
+  }
+
+  /**
+   * Approve the settlement contract for a token the signer pays in trades, if needed
+   */
+  approve(token: string, amount: BigNumberish) {
+    return ensureAllowance(IERC20__factory.connect(token, this.contract.signer), this.address, amount);
+  }
+
+  // ===== MARKETS =====
+
+  getPair(baseAsset: string, quoteAsset: string): Promise<Pair> {
+    return this.read(() => this.contract.getPair(baseAsset, quoteAsset));
+  }
+
+  getPairs(): Promise<Pair[]> {
+    return this.read(() => this.contract.getPairs());
+  }
+
+  /**
+   * Quote amount of a fill, as computed on-chain from the pair's decimals snapshot
+   * @param roundUp True when the taker pays the quote
+   */
+  async previewQuoteAmount(
+    baseAsset: string,
+    quoteAsset: string,
+    quantity: BigNumberish,
+    price: BigNumberish,
+    roundUp = false
+  ): Promise<BigNumber> {
+    const pair = await this.getPair(baseAsset, quoteAsset);
+    if (!pair.enabled) throw new Error("Pair not enabled");
+
+    const numerator = BigNumber.from(quantity).mul(price).mul(BigNumber.from(10).pow(pair.quoteDecimals));
+    const denominator = BigNumber.from(10).pow(18 + pair.baseDecimals);
+    const amount = numerator.div(denominator);
+    return roundUp && !numerator.mod(denominator).isZero() ? amount.add(1) : amount;
+  }
+
+  /**
+   * Fee charged on an amount received by a maker or the taker
+   */
+  async previewFee(amount: BigNumberish, isTaker: boolean): Promise<BigNumber> {
+    const feeBps = await (isTaker ? this.contract.takerFeeBps() : this.contract.makerFeeBps());
+    return BigNumber.from(amount).mul(feeBps).div(10000);
+  }
+
+  // ===== SETTLEMENT (SETTLEMENT_OPERATOR_ROLE) =====
+
+  settleTrade(
+    tradeData: TradeExecution,
+    order1: Order,
+    signature1: string,
+    order2: Order,
+    signature2: string
+  ): Promise<TxResult<TradeSettledEvent>> {
+    return sendTransaction(this.contract.interface, "TradeSettled", () =>
+      this.contract.settleTrade(tradeData, order1, signature1, order2, signature2)
+    );
+  }
+
+  /**
+   * Settle a batch; in skip-failed mode the failed matches come back with decoded reasons
+   */
+  async settleTrades(matches: Match[], atomic: boolean): Promise<BatchResult> {
+    const result = await sendTransaction<TradeSettledEvent>(this.contract.interface, "TradeSettled", () =>
+      this.contract.settleTrades(matches, atomic)
+    );
+    const failures = (result.receipt.events ?? [])
+      .filter((event) => event.event === "TradeFailed")
+      .map((event) => {
+        const failed = event as TradeFailedEvent;
+        return {
+          index: failed.args.index.toNumber(),
+          revert: decodeRevertData(failed.args.reason, this.contract.interface),
+          event: failed,
+        };
+      });
+    return { ...result, failures };
+  }
+
+  settleRing(fills: RingFill[]): Promise<TxResult<RingSettledEvent>> {
+    return sendTransaction(this.contract.interface, "RingSettled", () => this.contract.settleRing(fills));
+  }
+
+  private read<T>(call: () => Promise<T>): Promise<T> {
+    return withRevertReason(this.contract.interface, call);
+  }
+}
@@ -0,0 +1,45 @@
+// sdk/transactions.ts
+//
+// Shared plumbing for the SDK clients: sending transactions with decoded revert reasons,
+// picking typed events out of receipts, and topping up ERC20 allowances.
+import { BigNumber, BigNumberish, ContractReceipt, ContractTransaction } from "ethers";
+import { Interface } from "ethers/lib/utils";
+import type { TypedEvent } from "../typechain-types/common";
+import type { IERC20 } from "../typechain-types";
+import { withRevertReason } from "./errors";
+
+export interface TxResult<E extends TypedEvent> {
+  receipt: ContractReceipt;
+  events: E[]; // the transaction's events of the client's main event type, in log order
+}
+
+/**
+ * Send a transaction, wait for it, and return its events named `eventName`
+ */
+export async function sendTransaction<E extends TypedEvent>(
+  iface: Interface,
+  eventName: string,
+  send: () => Promise<ContractTransaction>
+): Promise<TxResult<E>> {
+  return withRevertReason(iface, async () => {
+    const receipt = await (await send()).wait();
+    const events = (receipt.events ?? []).filter((event) => event.event === eventName) as E[];
+    return { receipt, events };
+  });
+}
+
+/**
+ * Approve `spender` for `amount` of `token` unless the signer's allowance already covers it
+ * @returns The approval receipt, or undefined if no approval was needed
+ */
+export async function ensureAllowance(
+  token: IERC20,
+  spender: string,
+  amount: BigNumberish
+): Promise<ContractReceipt | undefined> {
+  const owner = await token.signer.getAddress();
+  const allowance = await token.allowance(owner, spender);
+  if (allowance.gte(amount)) return undefined;
+
+  return withRevertReason(token.interface, async () => (await token.approve(spender, BigNumber.from(amount))).wait());
+}
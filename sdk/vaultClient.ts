@@ -0,0 +1,144 @@
+// sdk/vaultClient.ts
+//
+// Typed client for HyperFillVault built on the generated typechain bindings. Write methods
+// handle WSEI approvals, wait for the transaction, return its typed events and throw a
+// HyperFillError with the decoded revert reason on failure.
+import { BigNumber, BigNumberish, Signer } from "ethers";
+import type { Provider } from "@ethersproject/providers";
+import { HyperFillVault, HyperFillVault__factory, IERC20Metadata, IERC20Metadata__factory } from "../typechain-types";
+import type {
+  AllCapitalReturnedEvent,
+  DepositEvent,
+  LiquidityMovedEvent,
+  SpecificAmountReturnedEvent,
+  WalletReservedEvent,
+  WithdrawEvent,
+} from "../typechain-types/contracts/HyperFillVault";
+import { withRevertReason } from "./errors";
+import { ensureAllowance, sendTransaction, TxResult } from "./transactions";
+
+export class HyperFillVaultClient {
+  readonly contract: HyperFillVault;
+  private assetToken?: IERC20Metadata;
+
+  constructor(address: string, signerOrProvider: Signer | Provider) {
+    this.contract = HyperFillVault__factory.connect(address, signerOrProvider);
+  }
+
+  get address(): string {
+    return this.contract.address;
+  }
+
+  /**
+   * The vault's underlying asset (WSEI)
+   */
+  async asset(): Promise<IERC20Metadata> {
+    if (!this.assetToken) {
+      this.assetToken = IERC20Metadata__factory.connect(await this.contract.asset(), this.contract.signer ?? this.contract.provider);
+    }
+    return this.assetToken;
+  }
+
+  // ===== PREVIEWS =====
+
+  previewDeposit(assets: BigNumberish): Promise<BigNumber> {
+    return this.read(() => this.contract.previewDeposit(assets));
+  }
+
+  /** Shares burned to receive `assets`, withdrawal fee included */
+  previewWithdraw(assets: BigNumberish): Promise<BigNumber> {
+    return this.read(() => this.contract.previewWithdraw(assets));
+  }
+
+  /** Assets received for `shares`, net of the withdrawal fee */
+  previewRedeem(shares: BigNumberish): Promise<BigNumber> {
+    return this.read(() => this.contract.previewRedeem(shares));
+  }
+
+  maxWithdraw(owner: string): Promise<BigNumber> {
+    return this.read(() => this.contract.maxWithdraw(owner));
+  }
+
+  sharePrice(): Promise<BigNumber> {
+    return this.read(() => this.contract.getSharePrice());
+  }
+
+  availableAssets(): Promise<BigNumber> {
+    return this.read(() => this.contract.getAvailableAssets());
+  }
+
+  // ===== LIQUIDITY =====
+
+  /**
+   * Deposit WSEI for shares, approving the vault first if needed
+   */
+  async deposit(assets: BigNumberish, receiver?: string): Promise<TxResult<DepositEvent>> {
+    await ensureAllowance(await this.asset(), this.address, assets);
+    const to = receiver ?? (await this.contract.signer.getAddress());
+    return sendTransaction(this.contract.interface, "Deposit", () => this.contract.deposit(assets, to));
+  }
+
+  /**
+   * Withdraw an exact amount of WSEI, burning the caller's shares
+   */
+  async withdraw(assets: BigNumberish, receiver?: string): Promise<TxResult<WithdrawEvent>> {
+    const owner = await this.contract.signer.getAddress();
+    return sendTransaction(this.contract.interface, "Withdraw", () =>
+      this.contract.withdraw(assets, receiver ?? owner, owner)
+    );
+  }
+
+  /**
+   * Redeem an exact number of the caller's shares for WSEI
+   */
+  async redeem(shares: BigNumberish, receiver?: string): Promise<TxResult<WithdrawEvent>> {
+    const owner = await this.contract.signer.getAddress();
+    return sendTransaction(this.contract.interface, "Withdraw", () =>
+      this.contract.redeem(shares, receiver ?? owner, owner)
+    );
+  }
+
+  // ===== AGENT =====
+
+  /**
+   * Move vault capital to a trading wallet or HyperFillSubAccount (AGENT_ROLE)
+   */
+  allocate(amount: BigNumberish, tradingWallet: string): Promise<TxResult<LiquidityMovedEvent>> {
+    return sendTransaction(this.contract.interface, "LiquidityMoved", () =>
+      this.contract.moveFromVaultToWallet(amount, tradingWallet)
+    );
+  }
+
+  /**
+   * Return part of a wallet's capital plus profit (AGENT_ROLE); the wallet must have approved the vault
+   */
+  returnCapital(
+    amount: BigNumberish,
+    profitAmount: BigNumberish,
+    fromWallet: string
+  ): Promise<TxResult<SpecificAmountReturnedEvent>> {
+    return sendTransaction(this.contract.interface, "SpecificAmountReturned", () =>
+      this.contract.moveFromWalletToVault(amount, profitAmount, fromWallet)
+    );
+  }
+
+  /**
+   * Reserve the signer's own wallet for `agent`, so no other agent can fund it or pull from it
+   */
+  reserveWallet(agent: string): Promise<TxResult<WalletReservedEvent>> {
+    return sendTransaction(this.contract.interface, "WalletReserved", () => this.contract.reserveWallet(agent));
+  }
+
+  /**
+   * Return everything in a wallet and close the caller's allocation to it (AGENT_ROLE)
+   */
+  returnAllCapital(fromWallet: string): Promise<TxResult<AllCapitalReturnedEvent>> {
+    return sendTransaction(this.contract.interface, "AllCapitalReturned", () =>
+      this.contract.returnAllCapital(fromWallet)
+    );
+  }
+
+  private read<T>(call: () => Promise<T>): Promise<T> {
+    return withRevertReason(this.contract.interface, call);
+  }
+}
@@ -0,0 +1,82 @@
+// tasks/common.ts
+//
+// Shared plumbing for the admin tasks: finding contracts in the deployment registry,
+// simulating or sending a call, and printing state before and after it.
+import { Contract, ContractTransaction } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getDeployment } from "../scripts/deployments";
+import { withRevertReason } from "../sdk/errors";
+
+/** Flat view of a contract's state, formatted for display */
+export type State = Record<string, string>;
+
+/**
+ * A contract from the registry, or at `address` when given
+ */
+export async function getContract<T extends Contract>(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  address?: string
+): Promise<T> {
+  const target = address ?? getDeployment(hre, contractName).address;
+  if (!hre.ethers.utils.isAddress(target)) throw new Error(`Invalid ${contractName} address: ${target}`);
+  return (await hre.ethers.getContractAt(contractName, target)) as T;
+}
+
+export function printState(title: string, state: State): void {
+  console.log(`\n📊 ${title}`);
+  console.log("=".repeat(50));
+  for (const [key, value] of Object.entries(state)) {
+    console.log(`${key.padEnd(24)} ${value}`);
+  }
+  console.log("=".repeat(50));
+}
+
+/**
+ * Entries whose value changed, as "key: before → after"
+ */
+export function diffState(before: State, after: State): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter((key) => before[key] !== after[key])
+    .map((key) => `${key}: ${before[key] ?? "-"} → ${after[key] ?? "-"}`);
+}
+
+export interface ActionResult {
+  dryRun: boolean;
+  before: State;
+  after?: State; // unset on dry runs
+  changes: string[];
+}
+
+/**
+ * Simulate a call with callStatic, then send it unless this is a dry run. Reverts are
+ * rethrown as a HyperFillError with the decoded reason
+ */
+export async function runAction(
+  contract: Contract,
+  method: string,
+  args: unknown[],
+  dryRun: boolean,
+  snapshot: () => Promise<State>
+): Promise<ActionResult> {
+  const call = `${method}(${args.map(String).join(", ")})`;
+  const before = await snapshot();
+
+  await withRevertReason(contract.interface, () => contract.callStatic[method](...args));
+  if (dryRun) {
+    const gas = await contract.estimateGas[method](...args);
+    console.log(`🧪 Dry run: ${call} would succeed (≈${gas.toString()} gas); nothing was sent`);
+    return { dryRun, before, changes: [] };
+  }
+
+  const tx = await withRevertReason<ContractTransaction>(contract.interface, () => contract[method](...args));
+  const receipt = await tx.wait();
+  console.log(`✅ ${call} mined in block ${receipt.blockNumber} (${receipt.transactionHash})`);
+
+  const after = await snapshot();
+  const changes = diffState(before, after);
+  console.log(changes.length > 0 ? "\n🔧 State changes:" : "\n🔧 No state changes");
+  for (const change of changes) console.log(`   ${change}`);
+  return { dryRun, before, after, changes };
+}
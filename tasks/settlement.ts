@@ -0,0 +1,59 @@
+// tasks/settlement.ts
+//
+// TradeSettlement admin tasks. The settlement address comes from deployments/<network>.json
+// unless --settlement is given.
+//
+//   npx hardhat settlement:status --network seiTestnet
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { IERC20Metadata, TradeSettlement } from "../typechain-types";
+import { getContract, printState, State } from "./common";
+
+async function settlementState(hre: HardhatRuntimeEnvironment, settlement: TradeSettlement): Promise<State> {
+  const { formatUnits } = hre.ethers.utils;
+  const operatorRole = await settlement.SETTLEMENT_OPERATOR_ROLE();
+  const operatorCount = (await settlement.getRoleMemberCount(operatorRole)).toNumber();
+  const operators = await Promise.all(
+    Array.from({ length: operatorCount }, (_, i) => settlement.getRoleMember(operatorRole, i))
+  );
+
+  const state: State = {
+    operators: operators.join(", ") || "none",
+    makerFeeBps: (await settlement.makerFeeBps()).toString(),
+    takerFeeBps: (await settlement.takerFeeBps()).toString(),
+    maxFeeBps: (await settlement.maxFeeBps()).toString(),
+    feeRecipient: await settlement.feeRecipient(),
+  };
+
+  const symbols: Record<string, string> = {};
+  const feeTokens = new Map<string, number>();
+  for (const pair of await settlement.getPairs()) {
+    for (const address of [pair.baseAsset, pair.quoteAsset]) {
+      const token = (await hre.ethers.getContractAt("IERC20Metadata", address)) as IERC20Metadata;
+      symbols[address] = symbols[address] ?? (await token.symbol());
+    }
+    feeTokens.set(pair.baseAsset, pair.baseDecimals);
+    feeTokens.set(pair.quoteAsset, pair.quoteDecimals);
+
+    const name = `pair ${symbols[pair.baseAsset]}/${symbols[pair.quoteAsset]}`;
+    state[name] = [
+      pair.enabled ? "enabled" : "disabled",
+      `tick ${formatUnits(pair.tickSize, 18)}`,
+      `lot ${formatUnits(pair.lotSize, pair.baseDecimals)}`,
+      `min notional ${formatUnits(pair.minNotional, pair.quoteDecimals)}`,
+    ].join(", ");
+  }
+  for (const [token, decimals] of feeTokens) {
+    state[`fees ${symbols[token]}`] = formatUnits(await settlement.accumulatedFees(token), decimals);
+  }
+  return state;
+}
+
+task("settlement:status", "Print TradeSettlement's operators, fees, pairs and accumulated fees")
+  .addOptionalParam("settlement", "TradeSettlement address (default: from the deployment registry)")
+  .setAction(async ({ settlement: address }: { settlement?: string }, hre) => {
+    const settlement = await getContract<TradeSettlement>(hre, "TradeSettlement", address);
+    const state = await settlementState(hre, settlement);
+    printState(`TradeSettlement ${settlement.address}`, state);
+    return state;
+  });
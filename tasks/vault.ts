@@ -0,0 +1,107 @@
+// tasks/vault.ts
+//
+// HyperFillVault admin tasks. The vault address comes from deployments/<network>.json
+// unless --vault is given; every write supports --dry-run.
+//
+//   npx hardhat vault:status --network seiTestnet
+//   npx hardhat vault:set-fee --fee management --bps 150 --dry-run --network seiTestnet
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { HyperFillVault, IERC20Metadata } from "../typechain-types";
+import { getContract, printState, runAction, State } from "./common";
+
+const FEE_SETTERS: Record<string, string> = {
+  management: "setManagementFee",
+  withdrawal: "setWithdrawalFee",
+  performance: "setPerformanceFee",
+};
+
+async function vaultState(hre: HardhatRuntimeEnvironment, vault: HyperFillVault): Promise<State> {
+  const asset = (await hre.ethers.getContractAt("IERC20Metadata", await vault.asset())) as IERC20Metadata;
+  const [symbol, decimals] = await Promise.all([asset.symbol(), asset.decimals()]);
+  const amount = (value: { toString(): string }) => `${hre.ethers.utils.formatUnits(value.toString(), decimals)} ${symbol}`;
+  const feeRecipient = await vault.feeRecipient();
+
+  const state: State = {
+    paused: String(await vault.paused()),
+    totalAssets: amount(await vault.totalAssets()),
+    availableAssets: amount(await vault.getAvailableAssets()),
+    totalSupply: hre.ethers.utils.formatUnits(await vault.totalSupply(), await vault.decimals()),
+    sharePrice: hre.ethers.utils.formatEther(await vault.getSharePrice()),
+    managementFeeBps: (await vault.managementFeeBps()).toString(),
+    withdrawalFeeBps: (await vault.withdrawalFeeBps()).toString(),
+    performanceFeeBps: (await vault.performanceFeeBps()).toString(),
+    feeRecipient,
+    feeRecipientBalance: amount(
+      feeRecipient === hre.ethers.constants.AddressZero ? 0 : await asset.balanceOf(feeRecipient)
+    ),
+    accumulatedFees: amount(await vault.getTotalAccumulatedFees()),
+    maxAllocationBps: (await vault.maxAllocationBps()).toString(),
+    minDeposit: amount(await vault.minDeposit()),
+  };
+  for (const agent of await vault.getAuthorizedAgents()) {
+    state[`agent ${agent}`] = `cap ${(await vault.agentMaxAllocationBps(agent)).toString()} bps, allocated ${amount(
+      await vault.agentAllocated(agent)
+    )}`;
+  }
+  return state;
+}
+
+task("vault:status", "Print the vault's state, fees, limits and agents")
+  .addOptionalParam("vault", "Vault address (default: from the deployment registry)")
+  .setAction(async ({ vault: address }: { vault?: string }, hre) => {
+    const vault = await getContract<HyperFillVault>(hre, "HyperFillVault", address);
+    const state = await vaultState(hre, vault);
+    printState(`HyperFillVault ${vault.address}`, state);
+    return state;
+  });
+
+task("vault:set-fee", "Set the management, withdrawal or performance fee (FEE_MANAGER_ROLE)")
+  .addParam("fee", "management, withdrawal or performance")
+  .addParam("bps", "New rate in basis points", undefined, types.int)
+  .addOptionalParam("vault", "Vault address (default: from the deployment registry)")
+  .addFlag("dryRun", "Simulate with callStatic without sending")
+  .setAction(async (args: { fee: string; bps: number; vault?: string; dryRun: boolean }, hre) => {
+    const setter = FEE_SETTERS[args.fee];
+    if (!setter) throw new Error(`Unknown fee "${args.fee}"; expected ${Object.keys(FEE_SETTERS).join(", ")}`);
+    if (args.bps < 0) throw new Error("bps must not be negative");
+
+    const vault = await getContract<HyperFillVault>(hre, "HyperFillVault", args.vault);
+    return runAction(vault, setter, [args.bps], args.dryRun, () => vaultState(hre, vault));
+  });
+
+task("vault:add-agent", "Authorize an agent (AGENT_MANAGER_ROLE)")
+  .addParam("agent", "Agent address")
+  .addOptionalParam("vault", "Vault address (default: from the deployment registry)")
+  .addFlag("dryRun", "Simulate with callStatic without sending")
+  .setAction(async (args: { agent: string; vault?: string; dryRun: boolean }, hre) => {
+    if (!hre.ethers.utils.isAddress(args.agent)) throw new Error(`Invalid agent address: ${args.agent}`);
+    const vault = await getContract<HyperFillVault>(hre, "HyperFillVault", args.vault);
+    return runAction(vault, "addAuthorizedAgent", [args.agent], args.dryRun, () => vaultState(hre, vault));
+  });
+
+task("vault:remove-agent", "Revoke an agent (AGENT_MANAGER_ROLE); its outstanding allocations stay recorded")
+  .addParam("agent", "Agent address")
+  .addOptionalParam("vault", "Vault address (default: from the deployment registry)")
+  .addFlag("dryRun", "Simulate with callStatic without sending")
+  .setAction(async (args: { agent: string; vault?: string; dryRun: boolean }, hre) => {
+    if (!hre.ethers.utils.isAddress(args.agent)) throw new Error(`Invalid agent address: ${args.agent}`);
+    const vault = await getContract<HyperFillVault>(hre, "HyperFillVault", args.vault);
+    return runAction(vault, "removeAuthorizedAgent", [args.agent], args.dryRun, () => vaultState(hre, vault));
+  });
+
+task("vault:pause", "Emergency pause the vault (GUARDIAN_ROLE)")
+  .addOptionalParam("vault", "Vault address (default: from the deployment registry)")
+  .addFlag("dryRun", "Simulate with callStatic without sending")
+  .setAction(async (args: { vault?: string; dryRun: boolean }, hre) => {
+    const vault = await getContract<HyperFillVault>(hre, "HyperFillVault", args.vault);
+    return runAction(vault, "pause", [], args.dryRun, () => vaultState(hre, vault));
+  });
+
+task("vault:withdraw-fees", "Send accumulated fees to the fee recipient (fee recipient or FEE_MANAGER_ROLE)")
+  .addOptionalParam("vault", "Vault address (default: from the deployment registry)")
+  .addFlag("dryRun", "Simulate with callStatic without sending")
+  .setAction(async (args: { vault?: string; dryRun: boolean }, hre) => {
+    const vault = await getContract<HyperFillVault>(hre, "HyperFillVault", args.vault);
+    return runAction(vault, "withdrawFees", [], args.dryRun, () => vaultState(hre, vault));
+  });
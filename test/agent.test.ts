@@ -0,0 +1,215 @@
+import { expect } from "chai";
+import hre, { ethers, network } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { BigNumber } from "ethers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HyperFillVault, MockERC20 } from "../typechain-types";
+import { createOrder, HyperFillVaultClient, Side, SignedOrder, TradeSettlementClient } from "../sdk";
+import { deployAll } from "../scripts/deployments";
+import { AgentConfig, MarketMakingAgent, MemoryOrderSink, SpreadStrategy, StaticPriceFeed } from "../agent";
+
+describe("Market-Making Agent", function () {
+    let vault: HyperFillVault;
+    let wsei: MockERC20, usdc: MockERC20;
+    let operator: TradeSettlementClient;
+    let owner: SignerWithAddress, agentSigner: SignerWithAddress, user: SignerWithAddress, taker: SignerWithAddress;
+    let dir: string;
+    let feed: StaticPriceFeed;
+    let sink: MemoryOrderSink;
+    let takerOrderId = 0;
+
+    const WSEI = (amount: string) => ethers.utils.parseEther(amount);
+    const USDC = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+    function createAgent(overrides: Partial<AgentConfig> = {}): MarketMakingAgent {
+        return new MarketMakingAgent(agentSigner, {
+            vault: vault.address,
+            settlement: operator.address,
+            baseAsset: wsei.address,
+            quoteAsset: usdc.address,
+            allocation: WSEI("500"),
+            strategy: new SpreadStrategy({ spreadBps: 200, orderSize: WSEI("100"), maxPosition: WSEI("300") }),
+            priceFeed: feed,
+            sink,
+            sessionLength: 3600,
+            log: () => undefined,
+            ...overrides,
+        });
+    }
+
+    function quote(side: Side): SignedOrder {
+        const found = sink.orders.find((signed) => signed.order.side === side);
+        if (!found) throw new Error(`No ${side === Side.Bid ? "bid" : "ask"} quoted`);
+        return found;
+    }
+
+    // Fill an agent quote with an opposite taker order, as the matching engine would
+    async function fill({ order, signature }: SignedOrder, quantity: BigNumber = order.quantity) {
+        const timestamp = (await ethers.provider.getBlock("latest")).timestamp;
+        const takerOrder = createOrder({
+            maker: taker.address,
+            orderId: ++takerOrderId,
+            baseAsset: wsei.address,
+            quoteAsset: usdc.address,
+            price: order.price,
+            quantity,
+            side: order.side === Side.Bid ? Side.Ask : Side.Bid,
+            timestamp,
+            nonce: 0,
+            expiry: timestamp + 3600,
+        });
+        await operator.settleTrade(
+            {
+                orderId: takerOrder.orderId,
+                account: taker.address,
+                price: order.price,
+                quantity,
+                baseAsset: wsei.address,
+                quoteAsset: usdc.address,
+                tradeId: `taker-${takerOrderId}`,
+                timestamp,
+                isValid: true,
+            },
+            order,
+            signature,
+            takerOrder,
+            await operator.signOrder(taker, takerOrder)
+        );
+    }
+
+    beforeEach(async function () {
+        [owner, agentSigner, user, taker] = await ethers.getSigners();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "hyperfill-agent-"));
+
+        // Deploy the way a local node is set up, with fees that would blur the PnL switched off
+        const { registry } = await deployAll(
+            hre,
+            {
+                tokens: {
+                    WSEI: { name: "Wrapped SEI", decimals: 18, supply: "1000000" },
+                    USDC: { name: "USD Coin", decimals: 6, supply: "1000000" },
+                },
+                vault: {
+                    asset: "WSEI",
+                    agents: [{ address: agentSigner.address, maxAllocationBps: 5000 }],
+                    managementFeeBps: 0,
+                    withdrawalFeeBps: 0,
+                },
+                settlement: {
+                    takerFeeBps: 10,
+                    pairs: [{ base: "WSEI", quote: "USDC", tickSize: "100000000000000", lotSize: "1000000000000000", minNotional: "1000000" }],
+                },
+            },
+            { dir, log: () => undefined }
+        );
+        const { contracts } = registry;
+        vault = (await ethers.getContractAt("HyperFillVault", contracts.HyperFillVault.address)) as HyperFillVault;
+        wsei = (await ethers.getContractAt("MockERC20", contracts.WSEI.address)) as MockERC20;
+        usdc = (await ethers.getContractAt("MockERC20", contracts.USDC.address)) as MockERC20;
+        operator = new TradeSettlementClient(contracts.TradeSettlement.address, owner);
+
+        await wsei.transfer(user.address, WSEI("10000"));
+        await wsei.transfer(taker.address, WSEI("10000"));
+        await usdc.transfer(taker.address, USDC("10000"));
+        const takerClient = new TradeSettlementClient(operator.address, taker);
+        await takerClient.approve(wsei.address, ethers.constants.MaxUint256);
+        await takerClient.approve(usdc.address, ethers.constants.MaxUint256);
+        await new HyperFillVaultClient(vault.address, user).deposit(WSEI("2000"));
+
+        feed = new StaticPriceFeed(ethers.utils.parseEther("0.5"));
+        sink = new MemoryOrderSink();
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should allocate, quote, trade and return capital with profit", async function () {
+        const agent = createAgent();
+
+        // Allocate and quote; with no USDC yet only the ask can be funded
+        expect(await agent.tick()).to.equal("quoting");
+        expect(await vault.walletAllocated(agentSigner.address, agentSigner.address)).to.equal(WSEI("500"));
+        expect(await vault.walletAgent(agentSigner.address)).to.equal(agentSigner.address);
+        expect(sink.orders).to.have.length(1);
+        expect(quote(Side.Ask).order.price).to.equal(ethers.utils.parseEther("0.505"));
+
+        // Sell 100 WSEI at 0.505, then buy them back at 0.495
+        await fill(quote(Side.Ask));
+        await agent.tick();
+        expect(agent.lastSnapshot!.position).to.equal(WSEI("-100"));
+        expect(agent.lastSnapshot!.pnl).to.equal(WSEI("1"));
+        await fill(quote(Side.Bid));
+        await agent.tick();
+        expect(agent.lastSnapshot!.fills).to.equal(2);
+        expect(agent.lastSnapshot!.quote).to.equal(USDC("1"));
+
+        // Session over: trade the leftover USDC back into WSEI, then return everything
+        await network.provider.send("evm_increaseTime", [3600]);
+        await network.provider.send("evm_mine", []);
+        expect(await agent.tick()).to.equal("unwinding");
+        await fill(quote(Side.Bid));
+        expect(await agent.tick()).to.equal("idle");
+
+        expect(await vault.walletAllocated(agentSigner.address, agentSigner.address)).to.equal(0);
+        expect(await wsei.balanceOf(agentSigner.address)).to.equal(0);
+        expect(await vault.totalAssets()).to.equal(WSEI("2002"));
+
+        // The next tick starts a new session
+        expect(await agent.tick()).to.equal("quoting");
+    });
+
+    it("Should unwind and halt when the loss limit trips", async function () {
+        const agent = createAgent({ risk: { maxLossBps: 100 } });
+        await agent.tick();
+        await fill(quote(Side.Ask));
+
+        // WSEI rallies while the agent is short: 400 WSEI + 50.5 USDC is now worth ~484 WSEI
+        feed.price = ethers.utils.parseEther("0.6");
+        expect(await agent.tick()).to.equal("unwinding");
+        expect(sink.orders).to.have.length(1);
+        await fill(quote(Side.Bid));
+        expect(await agent.tick()).to.equal("halted");
+
+        expect(agent.haltReason).to.contain("loss of");
+        expect(await vault.walletAllocated(agentSigner.address, agentSigner.address)).to.equal(0);
+        expect(await vault.totalAssets()).to.be.lt(WSEI("2000"));
+    });
+
+    it("Should halt and invalidate its quotes when the vault is paused", async function () {
+        const agent = createAgent();
+        await agent.tick();
+        const ask = quote(Side.Ask);
+
+        await vault.pause();
+        expect(await agent.tick()).to.equal("halted");
+
+        expect(agent.haltReason).to.equal("vault paused");
+        expect(sink.orders).to.be.empty;
+        expect(await operator.getRemainingQuantity(ask.order)).to.equal(0);
+    });
+
+    it("Should stay within the vault's allocation limits", async function () {
+        const agent = createAgent({ allocation: WSEI("5000") });
+
+        await agent.tick();
+
+        // The agent cap of 50% binds first; the agent keeps 1 bps of headroom for fee accrual
+        expect(await vault.walletAllocated(agentSigner.address, agentSigner.address)).to.equal(WSEI("999.9"));
+    });
+
+    it("Should run until stopped and return its capital", async function () {
+        const agent = createAgent({ pollInterval: 10 });
+
+        agent.start();
+        while (agent.status !== "quoting") await new Promise((resolve) => setTimeout(resolve, 10));
+        await agent.stop();
+
+        expect(agent.status).to.equal("halted");
+        expect(agent.haltReason).to.equal("agent stopped");
+        expect(await vault.walletAllocated(agentSigner.address, agentSigner.address)).to.equal(0);
+        expect(await vault.totalAssets()).to.equal(WSEI("2000"));
+    });
+});
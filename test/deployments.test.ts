@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HyperFillVault, TradeSettlement } from "../typechain-types";
+import { deployAll, DeploymentRegistry, NetworkConfig, registryPath, saveRegistry } from "../scripts/deployments";
+
+describe("Deployments", function () {
+    let dir: string;
+    let config: NetworkConfig;
+    let owner: SignerWithAddress, agent: SignerWithAddress;
+
+    const deploy = (networkConfig = config) => deployAll(hre, networkConfig, { dir, log: () => undefined });
+
+    function readRegistry(): DeploymentRegistry {
+        return JSON.parse(fs.readFileSync(registryPath(hre.network.name, dir), "utf8"));
+    }
+
+    beforeEach(async function () {
+        [owner, agent] = await ethers.getSigners();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "hyperfill-deployments-"));
+        config = {
+            tokens: {
+                WSEI: { name: "Wrapped SEI", decimals: 18, supply: "1000000" },
+                USDC: { name: "USD Coin", decimals: 6, supply: "1000000" },
+            },
+            vault: {
+                asset: "WSEI",
+                feeRecipient: "deployer",
+                agents: [{ address: agent.address, maxAllocationBps: 5000 }],
+                maxAllocationBps: 8000,
+                minDeposit: "2",
+            },
+            settlement: {
+                feeRecipient: "deployer",
+                takerFeeBps: 10,
+                pairs: [{ base: "WSEI", quote: "USDC", tickSize: "1", lotSize: "1", minNotional: "0" }],
+            },
+        };
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should deploy, configure and record every contract", async function () {
+        const result = await deploy();
+
+        expect(result.deployed).to.deep.equal(["WSEI", "USDC", "HyperFillVault", "TradeSettlement"]);
+        const registry = readRegistry();
+        const { contracts } = registry;
+        expect(registry.chainId).to.equal(31337);
+        expect(contracts.HyperFillVault.args).to.deep.equal([contracts.WSEI.address]);
+        expect(contracts.TradeSettlement.blockNumber).to.be.greaterThan(0);
+        expect(contracts.TradeSettlement.abi).to.not.be.empty;
+
+        const receipt = await ethers.provider.getTransactionReceipt(contracts.TradeSettlement.transactionHash!);
+        expect(receipt.contractAddress).to.equal(contracts.TradeSettlement.address);
+
+        const vault = (await ethers.getContractAt("HyperFillVault", contracts.HyperFillVault.address)) as HyperFillVault;
+        expect(await vault.feeRecipient()).to.equal(owner.address);
+        expect(await vault.authorizedAgents(agent.address)).to.be.true;
+        expect(await vault.agentMaxAllocationBps(agent.address)).to.equal(5000);
+        expect(await vault.maxAllocationBps()).to.equal(8000);
+        expect(await vault.minDeposit()).to.equal(ethers.utils.parseEther("2"));
+
+        const settlement = (await ethers.getContractAt("TradeSettlement", contracts.TradeSettlement.address)) as TradeSettlement;
+        expect(await settlement.takerFeeBps()).to.equal(10);
+        expect((await settlement.getPair(contracts.WSEI.address, contracts.USDC.address)).enabled).to.be.true;
+    });
+
+    it("Should reuse matching deployments without sending transactions", async function () {
+        const first = await deploy();
+        const blockNumber = await ethers.provider.getBlockNumber();
+
+        const second = await deploy();
+
+        expect(second.deployed).to.be.empty;
+        expect(second.reused).to.deep.equal(["WSEI", "USDC", "HyperFillVault", "TradeSettlement"]);
+        expect(second.changes).to.be.empty;
+        expect(second.registry.contracts).to.deep.equal(first.registry.contracts);
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("Should only send the settings that changed", async function () {
+        await deploy();
+
+        const result = await deploy({ ...config, vault: { ...config.vault, maxAllocationBps: 6000 } });
+
+        expect(result.deployed).to.be.empty;
+        expect(result.changes).to.deep.equal(["vault maxAllocationBps"]);
+        const vault = (await ethers.getContractAt("HyperFillVault", readRegistry().contracts.HyperFillVault.address)) as HyperFillVault;
+        expect(await vault.maxAllocationBps()).to.equal(6000);
+    });
+
+    it("Should redeploy contracts whose recorded code does not match", async function () {
+        const { registry } = await deploy();
+        // Point the settlement entry at a contract with different code
+        registry.contracts.TradeSettlement.address = registry.contracts.WSEI.address;
+        saveRegistry(registry, dir);
+
+        const result = await deploy();
+
+        expect(result.deployed).to.deep.equal(["TradeSettlement"]);
+        expect(readRegistry().contracts.TradeSettlement.address).to.not.equal(registry.contracts.WSEI.address);
+    });
+});
@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ContractFactory } from "ethers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HyperFillFeeSplitter, HyperFillVault, MockERC20 } from "../typechain-types";
+
+describe("HyperFillFeeSplitter", function () {
+    let splitter: HyperFillFeeSplitter;
+    let vault: HyperFillVault;
+    let asset: MockERC20;
+    let owner: SignerWithAddress, user: SignerWithAddress, treasury: SignerWithAddress;
+    let operator: SignerWithAddress, referrer: SignerWithAddress;
+
+    const INITIAL_SUPPLY = ethers.utils.parseEther("1000000");
+    const DEPOSIT_AMOUNT = ethers.utils.parseEther("1000");
+
+    beforeEach(async function () {
+        [owner, user, treasury, operator, referrer] = await ethers.getSigners();
+
+        const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
+        asset = (await MockERC20Factory.deploy("Wrapped SEI", "WSEI", INITIAL_SUPPLY, 18)) as MockERC20;
+        await asset.deployed();
+
+        const SplitterFactory: ContractFactory = await ethers.getContractFactory("HyperFillFeeSplitter");
+        splitter = (await SplitterFactory.deploy(
+            [treasury.address, operator.address, referrer.address],
+            [6000, 3000, 1000]
+        )) as HyperFillFeeSplitter;
+        await splitter.deployed();
+    });
+
+    describe("Recipients", function () {
+        it("Should store recipients and weights", async function () {
+            const [recipients, weights] = await splitter.getRecipients();
+            expect(recipients).to.deep.equal([treasury.address, operator.address, referrer.address]);
+            expect(weights.map((w) => w.toNumber())).to.deep.equal([6000, 3000, 1000]);
+        });
+
+        it("Should reject weights that do not sum to 10000", async function () {
+            await expect(splitter.setRecipients([treasury.address, operator.address], [6000, 3000]))
+                .to.be.revertedWith("HyperFillFeeSplitter: Weights must sum to 10000");
+        });
+
+        it("Should reject duplicate and zero recipients", async function () {
+            await expect(splitter.setRecipients([treasury.address, treasury.address], [5000, 5000]))
+                .to.be.revertedWith("HyperFillFeeSplitter: Duplicate recipient");
+            await expect(splitter.setRecipients([ethers.constants.AddressZero], [10000]))
+                .to.be.revertedWith("HyperFillFeeSplitter: Invalid recipient");
+        });
+
+        it("Should only let the owner change recipients", async function () {
+            await expect(splitter.connect(treasury).setRecipients([treasury.address], [10000]))
+                .to.be.reverted;
+
+            await expect(splitter.setRecipients([treasury.address], [10000]))
+                .to.emit(splitter, "FeeRecipientsSet");
+            expect(await splitter.recipientWeightBps(operator.address)).to.equal(0);
+        });
+    });
+
+    describe("Distribution", function () {
+        it("Should split received fees by weight", async function () {
+            await asset.transfer(splitter.address, ethers.utils.parseEther("100"));
+
+            await expect(splitter.distribute(asset.address))
+                .to.emit(splitter, "FeesDistributed")
+                .withArgs(asset.address, ethers.utils.parseEther("100"));
+
+            expect(await splitter.claimableFees(asset.address, treasury.address)).to.equal(ethers.utils.parseEther("60"));
+            expect(await splitter.claimableFees(asset.address, operator.address)).to.equal(ethers.utils.parseEther("30"));
+            expect(await splitter.claimableFees(asset.address, referrer.address)).to.equal(ethers.utils.parseEther("10"));
+            expect(await splitter.undistributedFees(asset.address)).to.equal(0);
+        });
+
+        it("Should give the rounding remainder to the last recipient", async function () {
+            await asset.transfer(splitter.address, 7);
+            await splitter.distribute(asset.address);
+
+            expect(await splitter.claimableFees(asset.address, treasury.address)).to.equal(4);
+            expect(await splitter.claimableFees(asset.address, operator.address)).to.equal(2);
+            expect(await splitter.claimableFees(asset.address, referrer.address)).to.equal(1);
+        });
+
+        it("Should let each recipient claim independently", async function () {
+            await asset.transfer(splitter.address, ethers.utils.parseEther("100"));
+
+            await expect(splitter.connect(operator).claim(asset.address))
+                .to.emit(splitter, "FeesClaimed")
+                .withArgs(asset.address, operator.address, ethers.utils.parseEther("30"));
+
+            expect(await asset.balanceOf(operator.address)).to.equal(ethers.utils.parseEther("30"));
+            expect(await splitter.totalClaimableFees(asset.address)).to.equal(ethers.utils.parseEther("70"));
+
+            await expect(splitter.connect(operator).claim(asset.address))
+                .to.be.revertedWith("HyperFillFeeSplitter: Nothing to claim");
+        });
+
+        it("Should keep credited fees when recipients change", async function () {
+            await asset.transfer(splitter.address, ethers.utils.parseEther("100"));
+            await splitter.distribute(asset.address);
+            await splitter.setRecipients([treasury.address], [10000]);
+
+            await asset.transfer(splitter.address, ethers.utils.parseEther("50"));
+            await splitter.connect(referrer).claim(asset.address);
+
+            expect(await asset.balanceOf(referrer.address)).to.equal(ethers.utils.parseEther("10"));
+            expect(await splitter.claimableFees(asset.address, treasury.address)).to.equal(ethers.utils.parseEther("110"));
+        });
+    });
+
+    describe("Vault integration", function () {
+        beforeEach(async function () {
+            const VaultFactory: ContractFactory = await ethers.getContractFactory("HyperFillVault");
+            vault = (await VaultFactory.deploy(asset.address)) as HyperFillVault;
+            await vault.deployed();
+
+            await vault.setFeeRecipient(splitter.address);
+            await vault.setWithdrawalFee(100);
+
+            await asset.transfer(user.address, ethers.utils.parseEther("10000"));
+            await asset.connect(user).approve(vault.address, ethers.constants.MaxUint256);
+            await vault.connect(user).depositLiquidity(DEPOSIT_AMOUNT);
+            await ethers.provider.send("evm_increaseTime", [365 * 24 * 60 * 60]);
+            await vault.connect(user).withdraw(ethers.utils.parseEther("100"), user.address, user.address);
+        });
+
+        it("Should split WSEI fees withdrawn from the vault", async function () {
+            await vault.withdrawFees();
+            const totalFees = await asset.balanceOf(splitter.address);
+
+            expect(totalFees).to.be.gt(ethers.utils.parseEther("20"));
+            expect(await splitter.undistributedFees(asset.address)).to.equal(totalFees);
+            await splitter.connect(treasury).claim(asset.address);
+            expect(await asset.balanceOf(treasury.address)).to.equal(totalFees.mul(6000).div(10000));
+        });
+
+        it("Should split management fees minted as HPF shares", async function () {
+            await vault.setFeesInShares(true);
+            await vault.withdrawFees();
+
+            // Only the withdrawal fee leaves the vault as WSEI
+            const withdrawalFee = ethers.utils.parseEther("1");
+            expect(await asset.balanceOf(splitter.address)).to.equal(withdrawalFee);
+
+            const feeShares = await vault.balanceOf(splitter.address);
+            expect(feeShares).to.be.gt(0);
+
+            await splitter.distribute(vault.address);
+            await splitter.connect(operator).claim(vault.address);
+            expect(await vault.balanceOf(operator.address)).to.equal(feeShares.mul(3000).div(10000));
+        });
+    });
+});
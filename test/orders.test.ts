@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { constants, ContractFactory, Wallet } from "ethers";
+import { TradeSettlement } from "../typechain-types";
+import {
+    createOrder,
+    getOrderDomain,
+    hashOrder,
+    orderFromJSON,
+    orderToJSON,
+    Side,
+    signedOrderFromJSON,
+    signedOrderToJSON,
+    signOrder,
+    verifyOrderSignature,
+} from "../sdk";
+
+describe("Orders", function () {
+    // Hardhat account #0; never fund this key outside a local node
+    const MAKER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+    const SETTLEMENT_ADDRESS = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+    const BASE = "0x1000000000000000000000000000000000000001";
+    const QUOTE = "0x2000000000000000000000000000000000000002";
+
+    const maker = new Wallet(MAKER_KEY);
+    const domain = getOrderDomain(31337, SETTLEMENT_ADDRESS);
+
+    // Digests and signatures pinned for the domain above; any change to the typed data breaks them
+    const VECTORS = [
+        {
+            order: createOrder({
+                maker: maker.address,
+                orderId: 1,
+                baseAsset: BASE,
+                quoteAsset: QUOTE,
+                price: "1500000000000000000",
+                quantity: "100000000000000000000",
+                side: Side.Bid,
+                timestamp: 1700000000,
+                nonce: 0,
+                expiry: 1700003600,
+            }),
+            hash: "0x84bd39d7d5688950a9e4b8996902b9f9c17d46481a1805535a59f5ab3f41894c",
+            signature: "0xae759d47547c3ef04cd10ae8ecb8e9fc74950b72f3a28b1927a3f695cde72a7a183e32403b37c248f61567a943821c68f68004abd68a9dce900caa5f30380fe01b",
+        },
+        {
+            order: createOrder({
+                maker: maker.address,
+                orderId: constants.MaxUint256,
+                baseAsset: BASE,
+                quoteAsset: QUOTE,
+                price: 1,
+                quantity: constants.MaxUint256,
+                side: Side.Ask,
+                timestamp: 0,
+                nonce: 42,
+                expiry: constants.MaxUint256,
+            }),
+            hash: "0xd2c3715dbc151530df97afb60ddf1883ed19063a2687c4cf1685062f636f4752",
+            signature: "0xda1cc60134c492dc93e98cd818e9bbce581d46f80f5f4a0381b26ab860dc70f103272287936201f0841de7b17fb92574706712d83297bc8029713258a33e42411c",
+        },
+    ];
+
+    describe("Golden Vectors", function () {
+        let tradeSettlement: TradeSettlement;
+
+        before(async function () {
+            // Run TradeSettlement's runtime code at the pinned address so the domains match
+            const TradeSettlementFactory: ContractFactory = await ethers.getContractFactory("TradeSettlement");
+            const deployed = await TradeSettlementFactory.deploy();
+            await deployed.deployed();
+            const code = await ethers.provider.getCode(deployed.address);
+            await network.provider.send("hardhat_setCode", [SETTLEMENT_ADDRESS, code]);
+            tradeSettlement = (await ethers.getContractAt("TradeSettlement", SETTLEMENT_ADDRESS)) as TradeSettlement;
+        });
+
+        it("Should hash the vectors off-chain", async function () {
+            for (const vector of VECTORS) {
+                expect(hashOrder(domain, vector.order)).to.equal(vector.hash);
+            }
+        });
+
+        it("Should hash the vectors on-chain", async function () {
+            for (const vector of VECTORS) {
+                expect(await tradeSettlement.hashOrder(vector.order)).to.equal(vector.hash);
+            }
+        });
+
+        it("Should produce the pinned signatures", async function () {
+            for (const vector of VECTORS) {
+                expect(await signOrder(maker, domain, vector.order)).to.equal(vector.signature);
+            }
+        });
+
+        it("Should verify the signatures off-chain and on-chain", async function () {
+            for (const vector of VECTORS) {
+                expect(verifyOrderSignature(domain, vector.order, vector.signature)).to.be.true;
+                expect(await tradeSettlement.verifyTradeSignature(vector.order, vector.signature)).to.be.true;
+            }
+        });
+    });
+
+    describe("Verification", function () {
+        const [{ order, signature }] = VECTORS;
+
+        it("Should reject a signature over different fields", async function () {
+            const tampered = { ...order, quantity: order.quantity.add(1) };
+            expect(verifyOrderSignature(domain, tampered, signature)).to.be.false;
+        });
+
+        it("Should reject another maker, another domain and malformed signatures", async function () {
+            const other = Wallet.createRandom();
+            expect(verifyOrderSignature(domain, { ...order, maker: other.address }, signature)).to.be.false;
+            expect(verifyOrderSignature(getOrderDomain(1329, SETTLEMENT_ADDRESS), order, signature)).to.be.false;
+            expect(verifyOrderSignature(domain, order, "0x1234")).to.be.false;
+        });
+    });
+
+    describe("Canonical Orders", function () {
+        it("Should normalize addresses and amounts", async function () {
+            const order = createOrder({
+                ...VECTORS[0].order,
+                maker: maker.address.toLowerCase(),
+                price: ethers.utils.parseEther("1.5").toHexString(),
+                quantity: "100000000000000000000",
+            });
+
+            expect(order.maker).to.equal(maker.address);
+            expect(order.price).to.equal(VECTORS[0].order.price);
+            expect(hashOrder(domain, order)).to.equal(VECTORS[0].hash);
+        });
+
+        it("Should reject orders TradeSettlement cannot accept", async function () {
+            const params = VECTORS[0].order;
+            expect(() => createOrder({ ...params, quantity: 0 })).to.throw("Order quantity is zero");
+            expect(() => createOrder({ ...params, price: -1 })).to.throw("out of uint256 range");
+            expect(() => createOrder({ ...params, quoteAsset: BASE })).to.throw("Identical base and quote assets");
+            expect(() => createOrder({ ...params, maker: "0x1234" })).to.throw("Invalid order maker");
+            expect(() => createOrder({ ...params, side: 2 as Side })).to.throw("Invalid order side");
+        });
+    });
+
+    describe("JSON", function () {
+        it("Should round-trip uint256 values through JSON", async function () {
+            const { order, hash } = VECTORS[1];
+            const json = JSON.stringify(orderToJSON(order));
+
+            const parsed = orderFromJSON(json);
+
+            expect(JSON.parse(json).quantity).to.equal(constants.MaxUint256.toString());
+            expect(parsed.quantity).to.equal(constants.MaxUint256);
+            expect(hashOrder(domain, parsed)).to.equal(hash);
+        });
+
+        it("Should round-trip signed orders", async function () {
+            const { order, signature } = VECTORS[0];
+
+            const parsed = signedOrderFromJSON(JSON.stringify(signedOrderToJSON({ order, signature })));
+
+            expect(parsed.signature).to.equal(signature);
+            expect(verifyOrderSignature(domain, parsed.order, parsed.signature)).to.be.true;
+        });
+
+        it("Should reject numeric amounts and unknown sides", async function () {
+            const json = orderToJSON(VECTORS[0].order);
+            expect(() => orderFromJSON({ ...json, price: 1.5 } as any)).to.throw("price must be a decimal string");
+            expect(() => orderFromJSON({ ...json, side: "buy" } as any)).to.throw("Invalid order side");
+        });
+    });
+});
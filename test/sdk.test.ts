@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ContractFactory } from "ethers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HyperFillVault, MockERC20, TradeSettlement } from "../typechain-types";
+import { HyperFillError, HyperFillVaultClient, Order, Side, TradeSettlementClient } from "../sdk";
+
+describe("SDK", function () {
+    let vault: HyperFillVault;
+    let tradeSettlement: TradeSettlement;
+    let wsei: MockERC20, usdc: MockERC20;
+    let owner: SignerWithAddress, user: SignerWithAddress, agent: SignerWithAddress;
+    let wallet: SignerWithAddress, trader: SignerWithAddress;
+
+    const INITIAL_SUPPLY = ethers.utils.parseEther("1000000");
+    const DEPOSIT_AMOUNT = ethers.utils.parseEther("1000");
+
+    // Expect a client call to fail with a decoded HyperFillError
+    async function expectRevert(promise: Promise<unknown>): Promise<HyperFillError> {
+        try {
+            await promise;
+        } catch (error) {
+            expect(error).to.be.instanceOf(HyperFillError);
+            return error as HyperFillError;
+        }
+        throw new Error("Expected the call to revert");
+    }
+
+    beforeEach(async function () {
+        [owner, user, agent, wallet, trader] = await ethers.getSigners();
+
+        const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
+        wsei = (await MockERC20Factory.deploy("Wrapped SEI", "WSEI", INITIAL_SUPPLY, 18)) as MockERC20;
+        await wsei.deployed();
+        usdc = (await MockERC20Factory.deploy("USD Coin", "USDC", ethers.utils.parseUnits("1000000", 6), 6)) as MockERC20;
+        await usdc.deployed();
+
+        const VaultFactory: ContractFactory = await ethers.getContractFactory("HyperFillVault");
+        vault = (await VaultFactory.deploy(wsei.address)) as HyperFillVault;
+        await vault.deployed();
+        await vault.setManagementFee(0);
+        await vault.addAuthorizedAgent(agent.address);
+
+        const TradeSettlementFactory: ContractFactory = await ethers.getContractFactory("TradeSettlement");
+        tradeSettlement = (await TradeSettlementFactory.deploy()) as TradeSettlement;
+        await tradeSettlement.deployed();
+        await tradeSettlement.setTokenAllowed(wsei.address, true);
+        await tradeSettlement.setTokenAllowed(usdc.address, true);
+        await tradeSettlement.listPair(wsei.address, usdc.address, 1, 1, 0);
+
+        await wsei.transfer(user.address, ethers.utils.parseEther("10000"));
+        await wsei.transfer(wallet.address, ethers.utils.parseEther("10000"));
+        await usdc.transfer(trader.address, ethers.utils.parseUnits("10000", 6));
+    });
+
+    describe("HyperFillVaultClient", function () {
+        let client: HyperFillVaultClient;
+
+        beforeEach(async function () {
+            client = new HyperFillVaultClient(vault.address, user);
+        });
+
+        it("Should approve and deposit in one call", async function () {
+            expect(await wsei.allowance(user.address, vault.address)).to.equal(0);
+            const expectedShares = await client.previewDeposit(DEPOSIT_AMOUNT);
+
+            const { events } = await client.deposit(DEPOSIT_AMOUNT);
+
+            expect(events[0].args.assets).to.equal(DEPOSIT_AMOUNT);
+            expect(events[0].args.shares).to.equal(expectedShares);
+            expect(await vault.balanceOf(user.address)).to.equal(expectedShares);
+        });
+
+        it("Should withdraw the previewed shares", async function () {
+            await client.deposit(DEPOSIT_AMOUNT);
+            const assets = ethers.utils.parseEther("100");
+            const expectedShares = await client.previewWithdraw(assets);
+
+            const { events } = await client.withdraw(assets);
+
+            expect(events[0].args.assets).to.equal(assets);
+            expect(events[0].args.shares).to.equal(expectedShares);
+        });
+
+        it("Should allocate to a wallet and return all capital as an agent", async function () {
+            await client.deposit(DEPOSIT_AMOUNT);
+            const agentClient = new HyperFillVaultClient(vault.address, agent);
+            const amount = ethers.utils.parseEther("100");
+
+            await new HyperFillVaultClient(vault.address, wallet).reserveWallet(agent.address);
+            const moved = await agentClient.allocate(amount, wallet.address);
+            expect(moved.events[0].args.amount).to.equal(amount);
+
+            await wsei.connect(wallet).approve(vault.address, ethers.constants.MaxUint256);
+            const returned = await agentClient.returnAllCapital(wallet.address);
+            expect(returned.events[0].args.fromWallet).to.equal(wallet.address);
+            expect(await vault.walletAllocated(agent.address, wallet.address)).to.equal(0);
+        });
+
+        it("Should decode require strings and custom errors", async function () {
+            const belowMinimum = await expectRevert(client.deposit(1));
+            expect(belowMinimum.reason).to.equal("HyperFillVault: Below minimum deposit");
+
+            const notAgent = await expectRevert(client.allocate(1, wallet.address));
+            expect(notAgent.reason).to.equal("HyperFillVault: Agent not authorized");
+
+            await client.deposit(DEPOSIT_AMOUNT);
+            const tooMuch = await expectRevert(client.withdraw(DEPOSIT_AMOUNT.mul(2)));
+            expect(tooMuch.revert?.name).to.equal("ERC4626ExceededMaxWithdraw");
+        });
+    });
+
+    describe("TradeSettlementClient", function () {
+        const PRICE = ethers.utils.parseEther("0.5");
+        const QUANTITY = ethers.utils.parseEther("100");
+        let client: TradeSettlementClient;
+        let bid: Order, ask: Order;
+
+        function tradeData(tradeId: string) {
+            return {
+                orderId: 1,
+                account: trader.address,
+                price: PRICE,
+                quantity: QUANTITY,
+                baseAsset: wsei.address,
+                quoteAsset: usdc.address,
+                tradeId,
+                timestamp: bid.timestamp,
+                isValid: true
+            };
+        }
+
+        beforeEach(async function () {
+            client = new TradeSettlementClient(tradeSettlement.address, owner);
+
+            const order = {
+                orderId: 1,
+                baseAsset: wsei.address,
+                quoteAsset: usdc.address,
+                price: PRICE,
+                quantity: QUANTITY.mul(2),
+                timestamp: 1700000000,
+                nonce: 0,
+                expiry: (await ethers.provider.getBlock("latest")).timestamp + 3600,
+            };
+            bid = { ...order, maker: trader.address, side: Side.Bid };
+            ask = { ...order, maker: wallet.address, side: Side.Ask };
+
+            await new TradeSettlementClient(tradeSettlement.address, trader).approve(usdc.address, ethers.constants.MaxUint256);
+            await new TradeSettlementClient(tradeSettlement.address, wallet).approve(wsei.address, ethers.constants.MaxUint256);
+        });
+
+        it("Should sign, preview and settle a trade", async function () {
+            await tradeSettlement.setTakerFee(30);
+            const quoteAmount = await client.previewQuoteAmount(wsei.address, usdc.address, QUANTITY, PRICE, true);
+            const takerFee = await client.previewFee(QUANTITY, true);
+            expect(quoteAmount).to.equal(ethers.utils.parseUnits("50", 6));
+
+            const { events } = await client.settleTrade(
+                tradeData("trade-1"),
+                bid,
+                await client.signOrder(trader, bid),
+                ask,
+                await client.signOrder(wallet, ask)
+            );
+
+            expect(events[0].args.baseFee).to.equal(takerFee);
+            expect(await usdc.balanceOf(wallet.address)).to.equal(quoteAmount);
+            expect(await client.getRemainingQuantity(ask)).to.equal(QUANTITY);
+        });
+
+        it("Should report failed batch matches with decoded reasons", async function () {
+            const match = {
+                tradeData: tradeData("trade-1"),
+                order1: bid,
+                signature1: await client.signOrder(trader, bid),
+                order2: ask,
+                signature2: await client.signOrder(wallet, ask),
+            };
+
+            const result = await client.settleTrades([match, match], false);
+
+            expect(result.events).to.have.length(1);
+            expect(result.failures).to.have.length(1);
+            expect(result.failures[0].index).to.equal(1);
+            expect(result.failures[0].revert?.reason).to.equal("Trade already executed");
+        });
+
+        it("Should decode settlement reverts", async function () {
+            const cancelled = await new TradeSettlementClient(tradeSettlement.address, wallet).cancelOrder(await client.hashOrder(ask));
+            expect(cancelled.events[0].args.maker).to.equal(wallet.address);
+
+            const error = await expectRevert(client.settleTrade(
+                tradeData("trade-1"),
+                bid,
+                await client.signOrder(trader, bid),
+                ask,
+                await client.signOrder(wallet, ask)
+            ));
+            expect(error.reason).to.equal("Order cancelled");
+        });
+
+        it("Should read market metadata", async function () {
+            const [pair] = await client.getPairs();
+            expect(pair.baseAsset).to.equal(wsei.address);
+            expect(pair.quoteDecimals).to.equal(6);
+        });
+    });
+});
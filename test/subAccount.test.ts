@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumber, ContractFactory, TypedDataDomain } from "ethers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HyperFillSubAccount, HyperFillVault, MockERC20, TradeSettlement } from "../typechain-types";
+import { getOrderDomain, hashOrder, Order, Side, signOrder } from "../sdk/orderSigning";
+
+describe("HyperFillSubAccount", function () {
+    let subAccount: HyperFillSubAccount;
+    let vault: HyperFillVault;
+    let tradeSettlement: TradeSettlement;
+    let wsei: MockERC20, usdc: MockERC20;
+    let owner: SignerWithAddress, user: SignerWithAddress, agent: SignerWithAddress;
+    let trader: SignerWithAddress, other: SignerWithAddress, otherAgent: SignerWithAddress;
+    let domain: TypedDataDomain;
+    let ask: Order, bid: Order;
+
+    const INITIAL_SUPPLY = ethers.utils.parseEther("1000000");
+    const DEPOSIT_AMOUNT = ethers.utils.parseEther("1000");
+    const ALLOCATION = ethers.utils.parseEther("100");
+    const PRICE = ethers.utils.parseEther("0.5"); // 0.5 USDC per WSEI
+
+    // Fill `quantity` of the sub-account's ask against the trader's bid
+    async function settle(quantity: BigNumber, tradeId: string, askSignature?: string) {
+        const tradeData = {
+            orderId: 1,
+            account: trader.address,
+            price: PRICE,
+            quantity,
+            baseAsset: wsei.address,
+            quoteAsset: usdc.address,
+            tradeId,
+            timestamp: ask.timestamp,
+            isValid: true
+        };
+        return tradeSettlement.settleTrade(
+            tradeData,
+            bid,
+            await signOrder(trader, domain, bid),
+            ask,
+            askSignature ?? await signOrder(agent, domain, ask)
+        );
+    }
+
+    beforeEach(async function () {
+        [owner, user, agent, trader, other, otherAgent] = await ethers.getSigners();
+
+        const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
+        wsei = (await MockERC20Factory.deploy("Wrapped SEI", "WSEI", INITIAL_SUPPLY, 18)) as MockERC20;
+        await wsei.deployed();
+        usdc = (await MockERC20Factory.deploy("USD Coin", "USDC", ethers.utils.parseUnits("1000000", 6), 6)) as MockERC20;
+        await usdc.deployed();
+
+        const VaultFactory: ContractFactory = await ethers.getContractFactory("HyperFillVault");
+        vault = (await VaultFactory.deploy(wsei.address)) as HyperFillVault;
+        await vault.deployed();
+        await vault.addAuthorizedAgent(agent.address);
+
+        const TradeSettlementFactory: ContractFactory = await ethers.getContractFactory("TradeSettlement");
+        tradeSettlement = (await TradeSettlementFactory.deploy()) as TradeSettlement;
+        await tradeSettlement.deployed();
+        await tradeSettlement.setTokenAllowed(wsei.address, true);
+        await tradeSettlement.setTokenAllowed(usdc.address, true);
+        await tradeSettlement.listPair(wsei.address, usdc.address, 1, 1, 0);
+
+        const { chainId } = await ethers.provider.getNetwork();
+        domain = getOrderDomain(chainId, tradeSettlement.address);
+
+        const SubAccountFactory: ContractFactory = await ethers.getContractFactory("HyperFillSubAccount");
+        subAccount = (await SubAccountFactory.deploy(vault.address, tradeSettlement.address, agent.address)) as HyperFillSubAccount;
+        await subAccount.deployed();
+
+        // Fund the vault, then allocate straight into the sub-account
+        await wsei.transfer(user.address, ethers.utils.parseEther("10000"));
+        await wsei.connect(user).approve(vault.address, ethers.constants.MaxUint256);
+        await vault.connect(user).depositLiquidity(DEPOSIT_AMOUNT);
+        await vault.connect(agent).moveFromVaultToWallet(ALLOCATION, subAccount.address);
+        await subAccount.connect(agent).approveSettlement(wsei.address, ethers.constants.MaxUint256);
+
+        await usdc.transfer(trader.address, ethers.utils.parseUnits("10000", 6));
+        await usdc.connect(trader).approve(tradeSettlement.address, ethers.constants.MaxUint256);
+
+        const order = {
+            orderId: 1,
+            baseAsset: wsei.address,
+            quoteAsset: usdc.address,
+            price: PRICE,
+            quantity: ALLOCATION,
+            timestamp: 1700000000,
+            nonce: 0,
+            expiry: (await ethers.provider.getBlock("latest")).timestamp + 3600,
+        };
+        ask = { ...order, maker: subAccount.address, side: Side.Ask };
+        bid = { ...order, maker: trader.address, side: Side.Bid };
+    });
+
+    describe("Settlement", function () {
+        it("Should settle orders the agent signs for the sub-account", async function () {
+            expect(await tradeSettlement.verifyTradeSignature(ask, await signOrder(agent, domain, ask))).to.be.true;
+
+            await expect(settle(ALLOCATION, "fill-1")).to.emit(tradeSettlement, "TradeSettled");
+
+            expect(await wsei.balanceOf(subAccount.address)).to.equal(0);
+            expect(await usdc.balanceOf(subAccount.address)).to.equal(ethers.utils.parseUnits("50", 6));
+            expect(await wsei.balanceOf(trader.address)).to.equal(ALLOCATION);
+        });
+
+        it("Should reject signatures from anyone but the agent", async function () {
+            const signature = await signOrder(other, domain, ask);
+            expect(await tradeSettlement.verifyTradeSignature(ask, signature)).to.be.false;
+            await expect(settle(ALLOCATION, "fill-1", signature))
+                .to.be.revertedWith("Invalid party2 signature");
+        });
+
+        it("Should stop open orders once the agent is removed", async function () {
+            await settle(ethers.utils.parseEther("40"), "fill-1");
+
+            // Partially filled orders are checked again for contract makers
+            await vault.removeAuthorizedAgent(agent.address);
+            await expect(settle(ethers.utils.parseEther("40"), "fill-2"))
+                .to.be.revertedWith("Invalid party2 signature");
+        });
+
+        it("Should stop open orders while the vault is paused", async function () {
+            await vault.pause();
+            await expect(settle(ALLOCATION, "fill-1"))
+                .to.be.revertedWith("Invalid party2 signature");
+
+            await vault.unpause();
+            await expect(settle(ALLOCATION, "fill-1")).to.emit(tradeSettlement, "TradeSettled");
+        });
+    });
+
+    describe("Custody", function () {
+        it("Should fund the sub-account within the vault's allocation caps", async function () {
+            expect(await vault.walletAllocated(agent.address, subAccount.address)).to.equal(ALLOCATION);
+
+            await vault.setAgentMaxAllocation(agent.address, 1500); // 15%
+            await expect(vault.connect(agent).moveFromVaultToWallet(ethers.utils.parseEther("60"), subAccount.address))
+                .to.be.revertedWith("HyperFillVault: Exceeds agent allocation cap");
+        });
+
+        it("Should return capital straight to the vault", async function () {
+            await settle(ethers.utils.parseEther("40"), "fill-1");
+            const remaining = await wsei.balanceOf(subAccount.address);
+
+            await vault.connect(agent).returnAllCapital(subAccount.address);
+
+            expect(await wsei.balanceOf(subAccount.address)).to.equal(0);
+            expect(await wsei.balanceOf(vault.address)).to.equal(DEPOSIT_AMOUNT.sub(ALLOCATION).add(remaining));
+            expect(await vault.walletAllocated(agent.address, subAccount.address)).to.equal(0);
+        });
+
+        it("Should not let another agent fund or pull from the sub-account", async function () {
+            await vault.addAuthorizedAgent(otherAgent.address);
+            expect(await vault.walletAgent(subAccount.address)).to.equal(agent.address);
+
+            await expect(vault.connect(otherAgent).moveFromVaultToWallet(1, subAccount.address))
+                .to.be.revertedWith("HyperFillVault: Wallet not reserved for agent");
+            await expect(vault.connect(otherAgent).moveFromWalletToVault(ALLOCATION, ALLOCATION, subAccount.address))
+                .to.be.revertedWith("HyperFillVault: Wallet not reserved for agent");
+            await expect(vault.connect(otherAgent).returnAllCapital(subAccount.address))
+                .to.be.revertedWith("HyperFillVault: Wallet not reserved for agent");
+
+            expect(await wsei.balanceOf(subAccount.address)).to.equal(ALLOCATION);
+            expect(await vault.walletAllocated(otherAgent.address, subAccount.address)).to.equal(0);
+            expect(await vault.walletAllocated(agent.address, subAccount.address)).to.equal(ALLOCATION);
+        });
+
+        it("Should only let the agent approve tokens and cancel orders", async function () {
+            await expect(subAccount.connect(other).approveSettlement(wsei.address, 0))
+                .to.be.revertedWith("HyperFillSubAccount: Not the agent");
+            await expect(subAccount.connect(other).cancelOrder(hashOrder(domain, ask)))
+                .to.be.revertedWith("HyperFillSubAccount: Not the agent");
+
+            await subAccount.connect(agent).cancelOrder(hashOrder(domain, ask));
+            expect(await tradeSettlement.cancelledOrders(subAccount.address, hashOrder(domain, ask))).to.be.true;
+            await expect(settle(ALLOCATION, "fill-1")).to.be.revertedWith("Order cancelled");
+        });
+    });
+});
@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { ContractFactory } from "ethers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HyperFillVault, MockERC20, TradeSettlement } from "../typechain-types";
+import { HyperFillError } from "../sdk/errors";
+import type { ActionResult, State } from "../tasks/common";
+
+describe("Admin Tasks", function () {
+    let vault: HyperFillVault;
+    let tradeSettlement: TradeSettlement;
+    let wsei: MockERC20, usdc: MockERC20;
+    let owner: SignerWithAddress, agent: SignerWithAddress;
+    let log: typeof console.log;
+
+    const INITIAL_SUPPLY = ethers.utils.parseEther("1000000");
+
+    // Run a task that is expected to throw and return its error
+    async function expectTaskError(name: string, args: Record<string, unknown>): Promise<Error> {
+        try {
+            await hre.run(name, args);
+        } catch (error) {
+            return error as Error;
+        }
+        throw new Error(`Expected ${name} to fail`);
+    }
+
+    beforeEach(async function () {
+        [owner, agent] = await ethers.getSigners();
+
+        const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
+        wsei = (await MockERC20Factory.deploy("Wrapped SEI", "WSEI", INITIAL_SUPPLY, 18)) as MockERC20;
+        await wsei.deployed();
+        usdc = (await MockERC20Factory.deploy("USD Coin", "USDC", ethers.utils.parseUnits("1000000", 6), 6)) as MockERC20;
+        await usdc.deployed();
+
+        const VaultFactory: ContractFactory = await ethers.getContractFactory("HyperFillVault");
+        vault = (await VaultFactory.deploy(wsei.address)) as HyperFillVault;
+        await vault.deployed();
+
+        const TradeSettlementFactory: ContractFactory = await ethers.getContractFactory("TradeSettlement");
+        tradeSettlement = (await TradeSettlementFactory.deploy()) as TradeSettlement;
+        await tradeSettlement.deployed();
+
+        // Keep task output out of the test report
+        log = console.log;
+        console.log = () => undefined;
+    });
+
+    afterEach(function () {
+        console.log = log;
+    });
+
+    it("Should report vault status", async function () {
+        await vault.addAuthorizedAgent(agent.address);
+
+        const state: State = await hre.run("vault:status", { vault: vault.address });
+
+        expect(state.paused).to.equal("false");
+        expect(state.managementFeeBps).to.equal("200");
+        expect(state.minDeposit).to.equal("1.0 WSEI");
+        expect(state[`agent ${agent.address}`]).to.equal("cap 0 bps, allocated 0.0 WSEI");
+    });
+
+    it("Should only simulate on a dry run", async function () {
+        const result: ActionResult = await hre.run("vault:set-fee", {
+            vault: vault.address,
+            fee: "management",
+            bps: 150,
+            dryRun: true,
+        });
+
+        expect(result.after).to.be.undefined;
+        expect(await vault.managementFeeBps()).to.equal(200);
+    });
+
+    it("Should set a fee and report the diff", async function () {
+        const result: ActionResult = await hre.run("vault:set-fee", { vault: vault.address, fee: "withdrawal", bps: 50 });
+
+        expect(result.changes).to.deep.equal(["withdrawalFeeBps: 10 → 50"]);
+        expect(await vault.withdrawalFeeBps()).to.equal(50);
+    });
+
+    it("Should add and remove agents", async function () {
+        const added: ActionResult = await hre.run("vault:add-agent", { vault: vault.address, agent: agent.address });
+        expect(added.changes).to.have.length(1);
+        expect(await vault.authorizedAgents(agent.address)).to.be.true;
+
+        await hre.run("vault:remove-agent", { vault: vault.address, agent: agent.address });
+        expect(await vault.authorizedAgents(agent.address)).to.be.false;
+    });
+
+    it("Should pause the vault", async function () {
+        const result: ActionResult = await hre.run("vault:pause", { vault: vault.address });
+
+        expect(result.changes).to.deep.equal(["paused: false → true"]);
+    });
+
+    it("Should surface decoded reverts from the simulation", async function () {
+        const error = await expectTaskError("vault:withdraw-fees", { vault: vault.address, dryRun: true });
+
+        expect(error).to.be.instanceOf(HyperFillError);
+        expect((error as HyperFillError).reason).to.equal("HyperFillVault: No fee recipient set");
+    });
+
+    it("Should reject unknown fees and invalid agents", async function () {
+        const unknownFee = await expectTaskError("vault:set-fee", { vault: vault.address, fee: "entry", bps: 10 });
+        expect(unknownFee.message).to.contain('Unknown fee "entry"');
+
+        const invalidAgent = await expectTaskError("vault:add-agent", { vault: vault.address, agent: "0x1234" });
+        expect(invalidAgent.message).to.contain("Invalid agent address");
+    });
+
+    it("Should report settlement status", async function () {
+        await tradeSettlement.setTokenAllowed(wsei.address, true);
+        await tradeSettlement.setTokenAllowed(usdc.address, true);
+        await tradeSettlement.listPair(wsei.address, usdc.address, ethers.utils.parseEther("0.01"), ethers.utils.parseEther("1"), 0);
+
+        const state: State = await hre.run("settlement:status", { settlement: tradeSettlement.address });
+
+        expect(state.operators).to.equal(owner.address);
+        expect(state["pair WSEI/USDC"]).to.equal("enabled, tick 0.01, lot 1.0, min notional 0.0");
+        expect(state["fees USDC"]).to.equal("0.0");
+    });
+});
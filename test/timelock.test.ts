@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ContractFactory } from "ethers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HyperFillTimelock, HyperFillVault, MockERC20 } from "../typechain-types";
+
+describe("HyperFillTimelock", function () {
+    let timelock: HyperFillTimelock;
+    let vault: HyperFillVault;
+    let asset: MockERC20;
+    let owner: SignerWithAddress, guardian: SignerWithAddress, other: SignerWithAddress;
+
+    const MIN_DELAY = 2 * 24 * 60 * 60;
+    const ZERO_SALT = ethers.constants.HashZero;
+
+    // Schedule a vault call through the timelock and return its arguments for execution
+    async function scheduleVaultCall(data: string) {
+        const args = [vault.address, 0, data, ethers.constants.HashZero, ZERO_SALT] as const;
+        await timelock.schedule(...args, MIN_DELAY);
+        return args;
+    }
+
+    beforeEach(async function () {
+        [owner, guardian, other] = await ethers.getSigners();
+
+        const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
+        asset = (await MockERC20Factory.deploy("Wrapped SEI", "WSEI", ethers.utils.parseEther("1000000"), 18)) as MockERC20;
+        await asset.deployed();
+
+        const VaultFactory: ContractFactory = await ethers.getContractFactory("HyperFillVault");
+        vault = (await VaultFactory.deploy(asset.address)) as HyperFillVault;
+        await vault.deployed();
+
+        // Owner proposes, anyone executes, no admin once deployed
+        const TimelockFactory: ContractFactory = await ethers.getContractFactory("HyperFillTimelock");
+        timelock = (await TimelockFactory.deploy(
+            MIN_DELAY,
+            [owner.address],
+            [ethers.constants.AddressZero],
+            ethers.constants.AddressZero
+        )) as HyperFillTimelock;
+        await timelock.deployed();
+
+        // Governance roles move to the timelock; only the guardian acts immediately
+        const governanceRoles = [
+            await vault.DEFAULT_ADMIN_ROLE(),
+            await vault.RISK_MANAGER_ROLE(),
+            await vault.FEE_MANAGER_ROLE(),
+            await vault.AGENT_MANAGER_ROLE(),
+        ];
+        for (const role of governanceRoles) {
+            await vault.grantRole(role, timelock.address);
+        }
+        await vault.grantRole(await vault.GUARDIAN_ROLE(), guardian.address);
+        for (const role of [...governanceRoles, await vault.GUARDIAN_ROLE()]) {
+            await vault.renounceRole(role, owner.address);
+        }
+    });
+
+    describe("Parameter changes", function () {
+        it("Should reject direct admin calls once the timelock holds the roles", async function () {
+            await expect(vault.setManagementFee(100)).to.be.reverted;
+            await expect(vault.addAuthorizedAgent(other.address)).to.be.reverted;
+        });
+
+        it("Should announce a change and apply it only after the delay", async function () {
+            const data = vault.interface.encodeFunctionData("setManagementFee", [100]);
+            const args = [vault.address, 0, data, ethers.constants.HashZero, ZERO_SALT] as const;
+
+            await expect(timelock.schedule(...args, MIN_DELAY))
+                .to.emit(timelock, "CallScheduled");
+
+            await expect(timelock.connect(other).execute(...args)).to.be.reverted;
+
+            await ethers.provider.send("evm_increaseTime", [MIN_DELAY]);
+            await expect(timelock.connect(other).execute(...args))
+                .to.emit(vault, "ManagementFeeSet")
+                .withArgs(100, 200);
+            expect(await vault.managementFeeBps()).to.equal(100);
+        });
+
+        it("Should not execute a cancelled change", async function () {
+            const data = vault.interface.encodeFunctionData("addAuthorizedAgent", [other.address]);
+            const args = await scheduleVaultCall(data);
+            const id = await timelock.hashOperation(...args);
+
+            await expect(timelock.cancel(id)).to.emit(timelock, "Cancelled").withArgs(id);
+
+            await ethers.provider.send("evm_increaseTime", [MIN_DELAY]);
+            await expect(timelock.execute(...args)).to.be.reverted;
+            expect(await vault.authorizedAgents(other.address)).to.equal(false);
+        });
+
+        it("Should only let proposers schedule changes", async function () {
+            const data = vault.interface.encodeFunctionData("setMinDeposit", [0]);
+            await expect(
+                timelock.connect(other).schedule(vault.address, 0, data, ethers.constants.HashZero, ZERO_SALT, MIN_DELAY)
+            ).to.be.reverted;
+        });
+
+        it("Should change the delay only through the timelock", async function () {
+            await expect(timelock.updateDelay(1)).to.be.reverted;
+
+            const data = timelock.interface.encodeFunctionData("updateDelay", [MIN_DELAY * 2]);
+            const args = [timelock.address, 0, data, ethers.constants.HashZero, ZERO_SALT] as const;
+            await timelock.schedule(...args, MIN_DELAY);
+            await ethers.provider.send("evm_increaseTime", [MIN_DELAY]);
+            await timelock.execute(...args);
+
+            expect(await timelock.getMinDelay()).to.equal(MIN_DELAY * 2);
+        });
+    });
+
+    describe("Emergency pause", function () {
+        it("Should let the guardian pause immediately", async function () {
+            await expect(vault.connect(guardian).pause())
+                .to.emit(vault, "Paused")
+                .withArgs(guardian.address);
+            expect(await vault.paused()).to.equal(true);
+        });
+
+        it("Should reject pause from other accounts", async function () {
+            await expect(vault.connect(other).pause()).to.be.reverted;
+            await expect(vault.pause()).to.be.reverted;
+        });
+
+        it("Should only unpause through the timelock", async function () {
+            await vault.connect(guardian).pause();
+            await expect(vault.connect(guardian).unpause()).to.be.reverted;
+
+            const args = await scheduleVaultCall(vault.interface.encodeFunctionData("unpause"));
+            await ethers.provider.send("evm_increaseTime", [MIN_DELAY]);
+            await timelock.execute(...args);
+            expect(await vault.paused()).to.equal(false);
+        });
+    });
+});
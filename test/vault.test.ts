@@ -0,0 +1,786 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { BigNumber, ContractFactory } from "ethers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HyperFillVault, MockERC20 } from "../typechain-types";
+
+describe("HyperFillVault", function () {
+    let vault: HyperFillVault;
+    let asset: MockERC20;
+    let owner: SignerWithAddress, user: SignerWithAddress, agent1: SignerWithAddress, agent2: SignerWithAddress;
+    let wallet1: SignerWithAddress, wallet2: SignerWithAddress, other: SignerWithAddress;
+
+    const INITIAL_SUPPLY = ethers.utils.parseEther("1000000");
+    const DEPOSIT_AMOUNT = ethers.utils.parseEther("1000");
+
+    beforeEach(async function () {
+        [owner, user, agent1, agent2, wallet1, wallet2, other] = await ethers.getSigners();
+
+        const MockERC20Factory: ContractFactory = await ethers.getContractFactory("MockERC20");
+        asset = (await MockERC20Factory.deploy("Wrapped SEI", "WSEI", INITIAL_SUPPLY, 18)) as MockERC20;
+        await asset.deployed();
+
+        const VaultFactory: ContractFactory = await ethers.getContractFactory("HyperFillVault");
+        vault = (await VaultFactory.deploy(asset.address)) as HyperFillVault;
+        await vault.deployed();
+
+        // Keep share price exact; fee tests enable time-based fees explicitly
+        await vault.setManagementFee(0);
+
+        await vault.addAuthorizedAgent(agent1.address);
+        await vault.addAuthorizedAgent(agent2.address);
+
+        // Fund the user and deposit into the vault
+        await asset.transfer(user.address, ethers.utils.parseEther("10000"));
+        await asset.connect(user).approve(vault.address, ethers.constants.MaxUint256);
+        await vault.connect(user).depositLiquidity(DEPOSIT_AMOUNT);
+
+        // Trading wallets reserve themselves for one agent and let the vault pull capital back
+        await vault.connect(wallet1).reserveWallet(agent1.address);
+        await vault.connect(wallet2).reserveWallet(agent2.address);
+        await asset.connect(wallet1).approve(vault.address, ethers.constants.MaxUint256);
+        await asset.connect(wallet2).approve(vault.address, ethers.constants.MaxUint256);
+    });
+
+    describe("Withdrawals", function () {
+        const FEE_BPS = 10;
+
+        it("Should include the withdrawal fee in previewRedeem and previewWithdraw", async function () {
+            const shares = ethers.utils.parseEther("100");
+            const grossAssets = await vault.convertToAssets(shares);
+            const netAssets = await vault.previewRedeem(shares);
+
+            // Fee is charged on the net amount received
+            expect(netAssets.add(netAssets.mul(FEE_BPS).div(10000))).to.be.closeTo(grossAssets, 1);
+            expect(await vault.previewWithdraw(netAssets)).to.be.closeTo(shares, 1);
+        });
+
+        it("Should withdraw an exact amount of assets", async function () {
+            const assets = ethers.utils.parseEther("100");
+            const expectedShares = await vault.previewWithdraw(assets);
+            const balanceBefore = await asset.balanceOf(user.address);
+
+            await expect(vault.connect(user).withdraw(assets, user.address, user.address))
+                .to.emit(vault, "LiquidityRemoved")
+                .withArgs(user.address, assets, expectedShares);
+
+            expect(await asset.balanceOf(user.address)).to.equal(balanceBefore.add(assets));
+            expect(await vault.balanceOf(user.address)).to.equal(DEPOSIT_AMOUNT.sub(expectedShares));
+            expect(await vault.accumulatedWithdrawalFees()).to.equal(assets.mul(FEE_BPS).div(10000));
+        });
+
+        it("Should redeem part of the caller's shares", async function () {
+            const shares = ethers.utils.parseEther("250");
+            const expectedAssets = await vault.previewRedeem(shares);
+            const balanceBefore = await asset.balanceOf(user.address);
+
+            await vault.connect(user).redeem(shares, user.address, user.address);
+
+            expect(await asset.balanceOf(user.address)).to.equal(balanceBefore.add(expectedAssets));
+            expect(await vault.balanceOf(user.address)).to.equal(DEPOSIT_AMOUNT.sub(shares));
+        });
+
+        it("Should let approved callers redeem on the owner's behalf", async function () {
+            const shares = ethers.utils.parseEther("100");
+            const expectedAssets = await vault.previewRedeem(shares);
+
+            await expect(
+                vault.connect(other).redeem(shares, other.address, user.address)
+            ).to.be.reverted;
+
+            await vault.connect(user).approve(other.address, shares);
+            await vault.connect(other).redeem(shares, other.address, user.address);
+
+            expect(await asset.balanceOf(other.address)).to.equal(expectedAssets);
+            expect(await vault.allowance(user.address, other.address)).to.equal(0);
+        });
+
+        it("Should apply the minimum deposit to ERC4626 deposits and mints", async function () {
+            await expect(
+                vault.connect(user).deposit(1, user.address)
+            ).to.be.revertedWith("HyperFillVault: Below minimum deposit");
+            await expect(
+                vault.connect(user).mint(1, user.address)
+            ).to.be.revertedWith("HyperFillVault: Below minimum deposit");
+        });
+
+        it("Should block ERC4626 entry points while paused", async function () {
+            await vault.pause();
+
+            expect(await vault.maxDeposit(user.address)).to.equal(0);
+            expect(await vault.maxRedeem(user.address)).to.equal(0);
+            await expect(vault.connect(user).deposit(DEPOSIT_AMOUNT, user.address)).to.be.reverted;
+            await expect(vault.connect(user).redeem(1, user.address, user.address)).to.be.reverted;
+        });
+
+        it("Should limit withdrawals to liquidity not allocated to agents", async function () {
+            const allocation = ethers.utils.parseEther("600");
+            await vault.connect(agent1).moveFromVaultToWallet(allocation, wallet1.address);
+
+            expect(await vault.maxWithdraw(user.address)).to.equal(DEPOSIT_AMOUNT.sub(allocation));
+            expect(await vault.maxRedeem(user.address)).to.equal(DEPOSIT_AMOUNT.sub(allocation));
+        });
+
+        it("Should still withdraw everything through withdrawProfits", async function () {
+            const expectedAssets = await vault.previewRedeem(DEPOSIT_AMOUNT);
+            const balanceBefore = await asset.balanceOf(user.address);
+
+            await vault.connect(user).withdrawProfits();
+
+            expect(await vault.balanceOf(user.address)).to.equal(0);
+            expect(await vault.shareToUser(user.address)).to.equal(0);
+            expect(await asset.balanceOf(user.address)).to.equal(balanceBefore.add(expectedAssets));
+        });
+    });
+
+    describe("Share transfers", function () {
+        const TRANSFERRED = ethers.utils.parseEther("400");
+
+        beforeEach(async function () {
+            await vault.connect(user).transfer(other.address, TRANSFERRED);
+        });
+
+        it("Should derive share ownership from the ERC20 balance", async function () {
+            expect(await vault.shareToUser(user.address)).to.equal(DEPOSIT_AMOUNT.sub(TRANSFERRED));
+            expect(await vault.shareToUser(other.address)).to.equal(TRANSFERRED);
+            expect(await vault.getUserShareBalance(other.address)).to.equal(TRANSFERRED);
+        });
+
+        it("Should let the recipient withdraw transferred shares", async function () {
+            const expectedAssets = await vault.previewRedeem(TRANSFERRED);
+
+            await vault.connect(other).withdrawProfits();
+
+            expect(await vault.balanceOf(other.address)).to.equal(0);
+            expect(await asset.balanceOf(other.address)).to.equal(expectedAssets);
+        });
+
+        it("Should let the sender withdraw the shares they kept", async function () {
+            await vault.connect(user).withdrawProfits();
+            expect(await vault.balanceOf(user.address)).to.equal(0);
+            expect(await vault.balanceOf(other.address)).to.equal(TRANSFERRED);
+        });
+    });
+
+    describe("Redeem requests", function () {
+        const ALLOCATION = ethers.utils.parseEther("900");
+        const REQUESTED = ethers.utils.parseEther("500");
+
+        beforeEach(async function () {
+            await vault.connect(agent1).moveFromVaultToWallet(ALLOCATION, wallet1.address);
+        });
+
+        it("Should lock shares and signal the capital agents must recall", async function () {
+            const expectedAssets = await vault.previewRedeem(REQUESTED);
+
+            await expect(vault.connect(user).requestRedeem(REQUESTED, user.address, user.address))
+                .to.emit(vault, "RedeemRequested")
+                .withArgs(user.address, user.address, 1, user.address, REQUESTED)
+                .and.to.emit(vault, "CapitalRecallRequested")
+                .withArgs(0, expectedAssets.sub(DEPOSIT_AMOUNT.sub(ALLOCATION)));
+
+            expect(await vault.balanceOf(user.address)).to.equal(DEPOSIT_AMOUNT.sub(REQUESTED));
+            expect(await vault.pendingRedeemRequest(1, user.address)).to.equal(REQUESTED);
+            expect(await vault.getCapitalToRecall()).to.equal(expectedAssets.sub(DEPOSIT_AMOUNT.sub(ALLOCATION)));
+
+            // Share price is unaffected by pending requests
+            expect(await vault.getSharePrice()).to.equal(ethers.utils.parseEther("1"));
+        });
+
+        it("Should fulfill the epoch once capital returns and let users claim", async function () {
+            await vault.connect(user).requestRedeem(REQUESTED, user.address, user.address);
+
+            await expect(vault.fulfillRedeemEpoch())
+                .to.be.revertedWith("HyperFillVault: Insufficient liquidity to fulfill");
+
+            await vault.connect(agent1).returnAllCapital(wallet1.address);
+            const expectedAssets = await vault.previewRedeem(REQUESTED);
+
+            await expect(vault.connect(other).fulfillRedeemEpoch())
+                .to.emit(vault, "RedeemEpochFulfilled")
+                .withArgs(0, REQUESTED, expectedAssets);
+
+            expect(await vault.currentRedeemEpoch()).to.equal(1);
+            expect(await vault.claimableRedeemRequest(1, user.address)).to.equal(REQUESTED);
+            expect(await vault.totalSupply()).to.equal(DEPOSIT_AMOUNT.sub(REQUESTED));
+
+            // Reserved assets no longer count towards the remaining holders
+            expect(await vault.getSharePrice()).to.be.closeTo(ethers.utils.parseEther("1"), 1000);
+
+            await expect(vault.connect(user).claimRedeem(1, other.address))
+                .to.emit(vault, "RedeemClaimed")
+                .withArgs(1, user.address, other.address, expectedAssets);
+            expect(await asset.balanceOf(other.address)).to.equal(expectedAssets);
+            expect(await vault.totalClaimableRedeemAssets()).to.equal(0);
+        });
+
+        it("Should not pay WSEI fees out of claimable redemptions", async function () {
+            await vault.connect(user).requestRedeem(ethers.utils.parseEther("90"), user.address, user.address);
+            await vault.fulfillRedeemEpoch();
+            const claimable = await vault.totalClaimableRedeemAssets();
+
+            // A year of 5% management fees is far more than the vault's unreserved balance
+            await vault.setFeeRecipient(other.address);
+            await vault.setManagementFee(500);
+            await network.provider.send("evm_increaseTime", [365 * 24 * 60 * 60]);
+            await vault.connect(other).withdrawFees();
+
+            // Only the unreserved balance is paid; the rest of the fees carries forward
+            expect(await asset.balanceOf(vault.address)).to.equal(claimable);
+            expect(await vault.accumulatedManagementFees()).to.be.gt(0);
+            expect(await vault.totalAssets()).to.be.lt(ALLOCATION);
+
+            await vault.connect(user).claimRedeem(1, user.address);
+            expect(await vault.totalClaimableRedeemAssets()).to.equal(0);
+        });
+
+        it("Should split an epoch pro-rata between requests", async function () {
+            await vault.connect(user).transfer(other.address, REQUESTED.div(2));
+            await vault.connect(user).requestRedeem(REQUESTED.div(2), user.address, user.address);
+            await vault.connect(other).requestRedeem(REQUESTED.div(2), other.address, other.address);
+
+            await vault.connect(agent1).returnAllCapital(wallet1.address);
+            await vault.fulfillRedeemEpoch();
+
+            const userAssets = await vault.connect(user).callStatic.claimRedeem(1, user.address);
+            const otherAssets = await vault.connect(other).callStatic.claimRedeem(2, other.address);
+            expect(userAssets).to.equal(otherAssets);
+        });
+
+        it("Should let the controller cancel before fulfillment", async function () {
+            await vault.connect(user).requestRedeem(REQUESTED, user.address, user.address);
+
+            await expect(vault.connect(other).cancelRedeemRequest(1))
+                .to.be.revertedWith("HyperFillVault: Not request controller");
+
+            await expect(vault.connect(user).cancelRedeemRequest(1))
+                .to.emit(vault, "RedeemRequestCancelled")
+                .withArgs(1, user.address, REQUESTED);
+
+            expect(await vault.balanceOf(user.address)).to.equal(DEPOSIT_AMOUNT);
+            expect(await vault.pendingRedeemRequest(1, user.address)).to.equal(0);
+            expect(await vault.getCapitalToRecall()).to.equal(0);
+        });
+
+        it("Should reject cancelling or re-claiming fulfilled requests", async function () {
+            await vault.connect(user).requestRedeem(REQUESTED, user.address, user.address);
+            await vault.connect(agent1).returnAllCapital(wallet1.address);
+            await vault.fulfillRedeemEpoch();
+
+            await expect(vault.connect(user).cancelRedeemRequest(1))
+                .to.be.revertedWith("HyperFillVault: Request already fulfilled");
+
+            await vault.connect(user).claimRedeem(1, user.address);
+            await expect(vault.connect(user).claimRedeem(1, user.address))
+                .to.be.revertedWith("HyperFillVault: Not request controller");
+        });
+
+        it("Should require an allowance to request on another owner's behalf", async function () {
+            await expect(
+                vault.connect(other).requestRedeem(REQUESTED, other.address, user.address)
+            ).to.be.reverted;
+
+            await vault.connect(user).approve(other.address, REQUESTED);
+            await vault.connect(other).requestRedeem(REQUESTED, other.address, user.address);
+            expect(await vault.pendingRedeemRequest(1, other.address)).to.equal(REQUESTED);
+        });
+
+        it("Should return cancelled shares to the owner rather than the controller", async function () {
+            await vault.connect(user).approve(other.address, REQUESTED);
+            await vault.connect(other).requestRedeem(REQUESTED, other.address, user.address);
+
+            await vault.connect(other).cancelRedeemRequest(1);
+
+            expect(await vault.balanceOf(user.address)).to.equal(DEPOSIT_AMOUNT);
+            expect(await vault.balanceOf(other.address)).to.equal(0);
+        });
+    });
+
+    describe("Per-agent allocation ledger", function () {
+        const AMOUNT1 = ethers.utils.parseEther("100");
+        const AMOUNT2 = ethers.utils.parseEther("200");
+
+        beforeEach(async function () {
+            await vault.connect(agent1).moveFromVaultToWallet(AMOUNT1, wallet1.address);
+            await vault.connect(agent2).moveFromVaultToWallet(AMOUNT2, wallet2.address);
+        });
+
+        it("Should track allocations per agent and per wallet", async function () {
+            expect(await vault.totalAllocated()).to.equal(AMOUNT1.add(AMOUNT2));
+            expect(await vault.agentAllocated(agent1.address)).to.equal(AMOUNT1);
+            expect(await vault.agentAllocated(agent2.address)).to.equal(AMOUNT2);
+            expect(await vault.walletAllocated(agent1.address, wallet1.address)).to.equal(AMOUNT1);
+            expect(await vault.walletAllocated(agent1.address, wallet2.address)).to.equal(0);
+        });
+
+        it("Should list outstanding capital per agent", async function () {
+            const [wallets, amounts]: [string[], BigNumber[]] = await vault.getAgentAllocations(agent1.address);
+            expect(wallets).to.deep.equal([wallet1.address]);
+            expect(amounts[0]).to.equal(AMOUNT1);
+
+            const [agents, agentAmounts]: [string[], BigNumber[]] = await vault.getAllAgentAllocations();
+            expect(agents).to.deep.equal([agent1.address, agent2.address]);
+            expect(agentAmounts[0]).to.equal(AMOUNT1);
+            expect(agentAmounts[1]).to.equal(AMOUNT2);
+        });
+
+        it("Should only settle the calling agent's allocation on returnAllCapital", async function () {
+            await vault.connect(agent1).returnAllCapital(wallet1.address);
+
+            expect(await vault.agentAllocated(agent1.address)).to.equal(0);
+            expect(await vault.agentAllocated(agent2.address)).to.equal(AMOUNT2);
+            expect(await vault.totalAllocated()).to.equal(AMOUNT2);
+
+            const [agents]: [string[], BigNumber[]] = await vault.getAllAgentAllocations();
+            expect(agents).to.deep.equal([agent2.address]);
+        });
+
+        it("Should reject returnAllCapital for a wallet the agent did not fund", async function () {
+            await expect(
+                vault.connect(agent1).returnAllCapital(wallet2.address)
+            ).to.be.revertedWith("HyperFillVault: Wallet not reserved for agent");
+        });
+
+        it("Should not let two agents share one wallet", async function () {
+            await asset.transfer(wallet1.address, AMOUNT1);
+
+            // agent2 can neither fund wallet1 nor sweep agent1's capital and profit out of it
+            await expect(
+                vault.connect(agent2).moveFromVaultToWallet(AMOUNT2, wallet1.address)
+            ).to.be.revertedWith("HyperFillVault: Wallet not reserved for agent");
+            await expect(
+                vault.connect(agent2).returnAllCapital(wallet1.address)
+            ).to.be.revertedWith("HyperFillVault: Wallet not reserved for agent");
+
+            await expect(vault.connect(agent1).returnAllCapital(wallet1.address))
+                .to.emit(vault, "ProfitsReturned")
+                .withArgs(agent1.address, wallet1.address, AMOUNT1);
+            expect(await vault.totalAllocated()).to.equal(AMOUNT2);
+        });
+
+        it("Should not fund a wallet that has not reserved itself", async function () {
+            await expect(
+                vault.connect(agent1).moveFromVaultToWallet(AMOUNT1, other.address)
+            ).to.be.revertedWith("HyperFillVault: Wallet not reserved for agent");
+        });
+
+        it("Should reject returning more capital than the wallet was allocated", async function () {
+            await expect(
+                vault.connect(agent1).moveFromWalletToVault(AMOUNT2, 0, wallet1.address)
+            ).to.be.revertedWith("HyperFillVault: Exceeds wallet allocation");
+        });
+
+        it("Should reject returns from a wallet funded by another agent", async function () {
+            const totalAssets = await vault.totalAssets();
+
+            // Booking the whole amount as profit used to skip the allocation check
+            await expect(
+                vault.connect(agent1).moveFromWalletToVault(AMOUNT2, AMOUNT2, wallet2.address)
+            ).to.be.revertedWith("HyperFillVault: Wallet not reserved for agent");
+
+            expect(await asset.balanceOf(wallet2.address)).to.equal(AMOUNT2);
+            expect(await vault.totalAssets()).to.equal(totalAssets);
+        });
+
+        it("Should cap reported profit at the wallet's surplus over its allocation", async function () {
+            // Without any real gain the whole balance is allocated capital
+            await expect(
+                vault.connect(agent1).moveFromWalletToVault(AMOUNT1, AMOUNT1, wallet1.address)
+            ).to.be.revertedWith("HyperFillVault: Profit exceeds wallet surplus");
+
+            const gain = ethers.utils.parseEther("50");
+            await asset.transfer(wallet1.address, gain);
+
+            await expect(
+                vault.connect(agent1).moveFromWalletToVault(gain.add(1), gain.add(1), wallet1.address)
+            ).to.be.revertedWith("HyperFillVault: Profit exceeds wallet surplus");
+            await vault.connect(agent1).moveFromWalletToVault(gain, gain, wallet1.address);
+            expect(await vault.walletAllocated(agent1.address, wallet1.address)).to.equal(AMOUNT1);
+            expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT.add(gain));
+        });
+
+        it("Should cap the number of wallets holding allocations", async function () {
+            const maxWallets = (await vault.MAX_ALLOCATED_WALLETS()).toNumber();
+
+            // wallet1 and wallet2 already hold allocations
+            const newWallet = async () => {
+                const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+                await owner.sendTransaction({ to: wallet.address, value: ethers.utils.parseEther("1") });
+                await vault.connect(wallet).reserveWallet(agent1.address);
+                return wallet;
+            };
+            for (let i = 2; i < maxWallets; i++) {
+                await vault.connect(agent1).moveFromVaultToWallet(1, (await newWallet()).address);
+            }
+
+            const extraWallet = await newWallet();
+            await expect(
+                vault.connect(agent1).moveFromVaultToWallet(1, extraWallet.address)
+            ).to.be.revertedWith("HyperFillVault: Too many allocated wallets");
+
+            // Settling a wallet frees its slot
+            await vault.connect(agent2).returnAllCapital(wallet2.address);
+            await vault.connect(agent1).moveFromVaultToWallet(1, extraWallet.address);
+            expect(await vault.walletAllocated(agent1.address, extraWallet.address)).to.equal(1);
+        });
+
+        it("Should reduce only the agent's allocation on partial returns", async function () {
+            const returned = ethers.utils.parseEther("40");
+            await vault.connect(agent1).moveFromWalletToVault(returned, 0, wallet1.address);
+
+            expect(await vault.walletAllocated(agent1.address, wallet1.address)).to.equal(AMOUNT1.sub(returned));
+            expect(await vault.agentAllocated(agent2.address)).to.equal(AMOUNT2);
+        });
+    });
+
+    describe("Realized losses", function () {
+        const ALLOCATION = ethers.utils.parseEther("100");
+        const LOSS = ethers.utils.parseEther("30");
+
+        beforeEach(async function () {
+            await vault.connect(agent1).moveFromVaultToWallet(ALLOCATION, wallet1.address);
+            // The wallet loses part of its capital while trading
+            await asset.connect(wallet1).transfer(owner.address, LOSS);
+        });
+
+        it("Should realize the shortfall as a loss on returnAllCapital", async function () {
+            await expect(vault.connect(agent1).returnAllCapital(wallet1.address))
+                .to.emit(vault, "LossRealized")
+                .withArgs(agent1.address, wallet1.address, LOSS);
+
+            expect(await vault.totalAllocated()).to.equal(0);
+            expect(await vault.totalRealizedLoss()).to.equal(LOSS);
+            expect(await vault.agentRealizedLoss(agent1.address)).to.equal(LOSS);
+            expect(await asset.balanceOf(wallet1.address)).to.equal(0);
+        });
+
+        it("Should let agents write off losses explicitly", async function () {
+            await expect(vault.connect(agent1).realizeLoss(LOSS, wallet1.address))
+                .to.emit(vault, "LossRealized")
+                .withArgs(agent1.address, wallet1.address, LOSS);
+
+            expect(await vault.walletAllocated(agent1.address, wallet1.address)).to.equal(ALLOCATION.sub(LOSS));
+
+            // The remaining capital can then be returned in full
+            await vault.connect(agent1).moveFromWalletToVault(ALLOCATION.sub(LOSS), 0, wallet1.address);
+            expect(await vault.totalAllocated()).to.equal(0);
+        });
+
+        it("Should reject losses larger than the wallet allocation", async function () {
+            await expect(
+                vault.connect(agent1).realizeLoss(ALLOCATION.add(1), wallet1.address)
+            ).to.be.revertedWith("HyperFillVault: Loss exceeds wallet allocation");
+        });
+
+        it("Should reject losses reported by unauthorized callers", async function () {
+            await expect(
+                vault.connect(user).realizeLoss(LOSS, wallet1.address)
+            ).to.be.revertedWith("HyperFillVault: Agent not authorized");
+        });
+    });
+
+    describe("Net asset value", function () {
+        const ALLOCATION = ethers.utils.parseEther("400");
+
+        beforeEach(async function () {
+            await vault.connect(agent1).moveFromVaultToWallet(ALLOCATION, wallet1.address);
+        });
+
+        it("Should keep share price unchanged when capital is allocated", async function () {
+            expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+            expect(await vault.getSharePrice()).to.equal(ethers.utils.parseEther("1"));
+            expect(await vault.getAvailableAssets()).to.equal(DEPOSIT_AMOUNT.sub(ALLOCATION));
+        });
+
+        it("Should mint fair shares to depositors while capital is out", async function () {
+            await vault.connect(user).depositLiquidity(DEPOSIT_AMOUNT);
+            expect(await vault.balanceOf(user.address)).to.equal(DEPOSIT_AMOUNT.mul(2));
+        });
+
+        it("Should drop share price when a loss is realized", async function () {
+            await vault.connect(agent1).realizeLoss(ethers.utils.parseEther("100"), wallet1.address);
+            expect(await vault.getSharePrice()).to.equal(ethers.utils.parseEther("0.9"));
+        });
+
+        it("Should value wallets at their latest mark-to-market report", async function () {
+            const block = await ethers.provider.getBlock("latest");
+            const markedValue = ethers.utils.parseEther("440");
+
+            await expect(
+                vault.connect(agent1).reportWalletValue(agent1.address, wallet1.address, markedValue, block.timestamp)
+            )
+                .to.emit(vault, "WalletValueReported")
+                .withArgs(agent1.address, wallet1.address, agent1.address, markedValue, block.timestamp);
+
+            expect(await vault.totalAllocatedValue()).to.equal(markedValue);
+            expect(await vault.getSharePrice()).to.equal(ethers.utils.parseEther("1.04"));
+
+            // Returning everything drops the mark and books the actual result
+            await asset.transfer(wallet1.address, ethers.utils.parseEther("40"));
+            await vault.connect(agent1).returnAllCapital(wallet1.address);
+            expect(await vault.totalAllocatedValue()).to.equal(0);
+            expect(await vault.getSharePrice()).to.equal(ethers.utils.parseEther("1.04"));
+        });
+
+        it("Should accept reports from NAV oracles", async function () {
+            await vault.setNavOracle(other.address, true);
+            const block = await ethers.provider.getBlock("latest");
+
+            await vault.connect(other).reportWalletValue(
+                agent1.address,
+                wallet1.address,
+                ethers.utils.parseEther("380"),
+                block.timestamp
+            );
+            expect(await vault.totalAssets()).to.equal(ethers.utils.parseEther("980"));
+        });
+
+        it("Should reject reports from unauthorized callers", async function () {
+            const block = await ethers.provider.getBlock("latest");
+            await expect(
+                vault.connect(agent2).reportWalletValue(agent1.address, wallet1.address, ALLOCATION, block.timestamp)
+            ).to.be.revertedWith("HyperFillVault: Not authorized to report");
+        });
+
+        it("Should reject stale reports", async function () {
+            const block = await ethers.provider.getBlock("latest");
+            const maxStaleness = await vault.maxReportStaleness();
+            await expect(
+                vault.connect(agent1).reportWalletValue(
+                    agent1.address,
+                    wallet1.address,
+                    ALLOCATION,
+                    block.timestamp - maxStaleness.toNumber() - 1
+                )
+            ).to.be.revertedWith("HyperFillVault: Report too stale");
+        });
+
+        it("Should reject reports that deviate too far from the current value", async function () {
+            const block = await ethers.provider.getBlock("latest");
+            await expect(
+                vault.connect(agent1).reportWalletValue(
+                    agent1.address,
+                    wallet1.address,
+                    ethers.utils.parseEther("600"),
+                    block.timestamp
+                )
+            ).to.be.revertedWith("HyperFillVault: Report deviation too high");
+        });
+
+        it("Should bound chained reports by the wallet's cost", async function () {
+            const block = await ethers.provider.getBlock("latest");
+            await vault.connect(agent1).reportWalletValue(
+                agent1.address,
+                wallet1.address,
+                ethers.utils.parseEther("480"),
+                block.timestamp - 1
+            );
+
+            // Another +20% one second later would put the mark 44% above cost
+            await expect(
+                vault.connect(agent1).reportWalletValue(
+                    agent1.address,
+                    wallet1.address,
+                    ethers.utils.parseEther("576"),
+                    block.timestamp
+                )
+            ).to.be.revertedWith("HyperFillVault: Report deviation too high");
+            expect(await vault.getSharePrice()).to.equal(ethers.utils.parseEther("1.08"));
+        });
+
+        it("Should value wallets at cost once their mark is stale", async function () {
+            const block = await ethers.provider.getBlock("latest");
+            await vault.connect(agent1).reportWalletValue(
+                agent1.address,
+                wallet1.address,
+                ethers.utils.parseEther("440"),
+                block.timestamp
+            );
+            expect(await vault.totalAssets()).to.equal(ethers.utils.parseEther("1040"));
+
+            const maxStaleness = await vault.maxReportStaleness();
+            await network.provider.send("evm_increaseTime", [maxStaleness.toNumber() + 1]);
+            await network.provider.send("evm_mine", []);
+
+            expect(await vault.isWalletMarkStale(agent1.address, wallet1.address)).to.be.true;
+            expect(await vault.totalAllocatedValue()).to.equal(ALLOCATION);
+            expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+        });
+    });
+
+    describe("Performance fee", function () {
+        const PROFIT = ethers.utils.parseEther("100");
+
+        beforeEach(async function () {
+            await vault.setFeeRecipient(other.address);
+            await expect(vault.setPerformanceFee(1000))
+                .to.emit(vault, "PerformanceFeeSet")
+                .withArgs(1000, 0);
+        });
+
+        it("Should preview the fee on gains above the high-water mark", async function () {
+            expect(await vault.previewPerformanceFee()).to.equal(0);
+            await asset.transfer(vault.address, PROFIT);
+            expect(await vault.previewPerformanceFee()).to.equal(PROFIT.div(10));
+        });
+
+        it("Should crystallize when profits come back through returnAllCapital", async function () {
+            await vault.connect(agent1).moveFromVaultToWallet(ethers.utils.parseEther("100"), wallet1.address);
+            await asset.transfer(wallet1.address, PROFIT);
+
+            const fee = PROFIT.div(10);
+            const newPrice = ethers.utils.parseEther("1.09");
+            await expect(vault.connect(agent1).returnAllCapital(wallet1.address))
+                .to.emit(vault, "PerformanceFeeCrystallized")
+                .withArgs(fee, newPrice, newPrice);
+
+            expect(await vault.accumulatedPerformanceFees()).to.equal(fee);
+            expect(await vault.highWaterMark()).to.equal(newPrice);
+            expect(await vault.getSharePrice()).to.equal(newPrice);
+        });
+
+        it("Should not charge the fee on unrealized mark gains", async function () {
+            const allocation = ethers.utils.parseEther("400");
+            const gain = ethers.utils.parseEther("40");
+            await vault.connect(agent1).moveFromVaultToWallet(allocation, wallet1.address);
+            const block = await ethers.provider.getBlock("latest");
+            await vault.connect(agent1).reportWalletValue(
+                agent1.address,
+                wallet1.address,
+                allocation.add(gain),
+                block.timestamp
+            );
+
+            // The mark lifts NAV but the fee waits until the gain is realized
+            expect(await vault.getSharePrice()).to.equal(ethers.utils.parseEther("1.04"));
+            expect(await vault.previewPerformanceFee()).to.equal(0);
+            await vault.setPerformanceFeeInterval(0);
+            await vault.crystallizePerformanceFee();
+            expect(await vault.accumulatedPerformanceFees()).to.equal(0);
+            expect(await vault.highWaterMark()).to.equal(ethers.utils.parseEther("1"));
+
+            await asset.transfer(wallet1.address, gain);
+            await vault.connect(agent1).returnAllCapital(wallet1.address);
+            expect(await vault.accumulatedPerformanceFees()).to.equal(gain.div(10));
+        });
+
+        it("Should only crystallize on schedule otherwise", async function () {
+            await asset.transfer(vault.address, PROFIT);
+            await expect(vault.crystallizePerformanceFee())
+                .to.be.revertedWith("HyperFillVault: Crystallization not due");
+
+            await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
+            await vault.crystallizePerformanceFee();
+            expect(await vault.accumulatedPerformanceFees()).to.equal(PROFIT.div(10));
+        });
+
+        it("Should not charge again until the high-water mark is exceeded", async function () {
+            await vault.connect(agent1).moveFromVaultToWallet(ethers.utils.parseEther("200"), wallet1.address);
+            await asset.transfer(wallet1.address, PROFIT);
+            await vault.connect(agent1).returnAllCapital(wallet1.address);
+
+            // Lose and recover the same amount: share price only climbs back to the mark
+            await vault.connect(agent1).moveFromVaultToWallet(ethers.utils.parseEther("200"), wallet1.address);
+            await vault.connect(agent1).realizeLoss(ethers.utils.parseEther("50"), wallet1.address);
+            await asset.transfer(vault.address, ethers.utils.parseEther("50"));
+
+            expect(await vault.previewPerformanceFee()).to.equal(0);
+        });
+
+        it("Should mint management and performance fees as shares when configured", async function () {
+            await vault.setManagementFee(200);
+            await vault.setFeesInShares(true);
+            await asset.transfer(vault.address, PROFIT);
+            await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
+            await vault.crystallizePerformanceFee();
+
+            const shareFees = (await vault.accumulatedPerformanceFees()).add(await vault.accumulatedManagementFees());
+            const vaultBalanceBefore = await asset.balanceOf(vault.address);
+
+            await expect(vault.connect(other).withdrawFees())
+                .to.emit(vault, "FeesMintedAsShares");
+
+            // Fee assets stay invested; the recipient holds shares worth the fees instead
+            expect(await vault.accumulatedPerformanceFees()).to.equal(0);
+            expect(await vault.accumulatedManagementFees()).to.equal(0);
+            expect(await asset.balanceOf(other.address)).to.equal(0);
+            expect(await asset.balanceOf(vault.address)).to.equal(vaultBalanceBefore);
+            const feeShares = await vault.balanceOf(other.address);
+            expect(await vault.convertToAssets(feeShares)).to.be.closeTo(shareFees, ethers.utils.parseEther("0.001"));
+        });
+
+        it("Should include performance fees in withdrawFees", async function () {
+            await asset.transfer(vault.address, PROFIT);
+            await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
+            await vault.crystallizePerformanceFee();
+
+            await expect(vault.connect(other).withdrawFees())
+                .to.emit(vault, "FeesWithdrawn")
+                .withArgs(other.address, 0, 0, PROFIT.div(10), PROFIT.div(10));
+            expect(await asset.balanceOf(other.address)).to.equal(PROFIT.div(10));
+        });
+
+        it("Should cap the performance fee", async function () {
+            await expect(vault.setPerformanceFee(3001))
+                .to.be.revertedWith("HyperFillVault: Performance fee too high");
+        });
+    });
+
+    describe("Per-agent allocation cap", function () {
+        it("Should enforce the agent cap alongside the global cap", async function () {
+            await expect(vault.setAgentMaxAllocation(agent1.address, 1000))
+                .to.emit(vault, "AgentAllocationCapSet")
+                .withArgs(agent1.address, 1000, 0);
+
+            const cap = (await vault.totalAssets()).mul(1000).div(10000);
+            await expect(
+                vault.connect(agent1).moveFromVaultToWallet(cap.add(1), wallet1.address)
+            ).to.be.revertedWith("HyperFillVault: Exceeds agent allocation cap");
+
+            // Other agents are only bound by the global cap
+            await vault.connect(agent2).moveFromVaultToWallet(cap.add(1), wallet2.address);
+        });
+
+        it("Should only let risk managers set agent caps", async function () {
+            await expect(
+                vault.connect(user).setAgentMaxAllocation(agent1.address, 1000)
+            ).to.be.reverted;
+        });
+    });
+
+    describe("Roles", function () {
+        it("Should let agent managers rotate agents without the admin role", async function () {
+            const agentRole = await vault.AGENT_ROLE();
+            await vault.grantRole(await vault.AGENT_MANAGER_ROLE(), other.address);
+
+            await expect(vault.connect(other).removeAuthorizedAgent(agent1.address))
+                .to.emit(vault, "RoleRevoked")
+                .withArgs(agentRole, agent1.address, other.address);
+            // AGENT_MANAGER_ROLE administers AGENT_ROLE, so grantRole works too
+            await vault.connect(other).grantRole(agentRole, wallet1.address);
+
+            expect(await vault.getAuthorizedAgents()).to.deep.equal([agent2.address, wallet1.address]);
+            expect(await vault.authorizedAgents(agent1.address)).to.equal(false);
+            expect(await vault.getRoleAdmin(agentRole)).to.equal(await vault.AGENT_MANAGER_ROLE());
+        });
+
+        it("Should scope each manager role to its own setters", async function () {
+            await vault.grantRole(await vault.RISK_MANAGER_ROLE(), other.address);
+
+            await expect(vault.connect(other).setMaxAllocation(5000))
+                .to.emit(vault, "MaxAllocationSet")
+                .withArgs(5000, 9000);
+            await expect(vault.connect(other).setManagementFee(100)).to.be.reverted;
+            await expect(vault.connect(other).addAuthorizedAgent(user.address)).to.be.reverted;
+            await expect(vault.connect(other).pause()).to.be.reverted;
+        });
+
+        it("Should let guardians pause but not unpause", async function () {
+            await vault.grantRole(await vault.GUARDIAN_ROLE(), other.address);
+
+            await vault.connect(other).pause();
+            await expect(vault.connect(other).unpause()).to.be.reverted;
+            await vault.unpause();
+        });
+    });
+});